@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+// Runs the headless CLI on Electron's bundled Node (ELECTRON_RUN_AS_NODE):
+// node-pty is rebuilt against Electron's ABI on install, so the system node can't load it.
+import { spawn } from 'node:child_process'
+import { createRequire } from 'node:module'
+import { fileURLToPath } from 'node:url'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+const require = createRequire(import.meta.url)
+const entry = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist-electron', 'cli.cjs')
+
+if (!fs.existsSync(entry)) {
+  console.error('natsuki: dist-electron/cli.cjs not found, run `npm run build:cli` first')
+  process.exit(1)
+}
+
+// Outside Electron, require('electron') is the path of the binary
+const child = spawn(require('electron'), [entry, ...process.argv.slice(2)], {
+  stdio: 'inherit',
+  env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+})
+
+// Ctrl+C reaches the child through the terminal; it cancels the job and exits on its own
+process.on('SIGINT', () => { })
+
+child.on('exit', (code, signal) => {
+  process.exit(signal ? 128 + (os.constants.signals[signal] || 0) : code ?? 1)
+})
@@ -0,0 +1,85 @@
+import { ipcMain } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import os from 'os';
+
+/**
+ * AgentAdapter: everything the Orchestrator needs to know about the coding CLI a job drives.
+ * The PTY session is a plain shell; the adapter says how to start the agent in it,
+ * how to hand it a prompt, how to tell it finished a turn and how to stop it.
+ */
+export interface AgentAdapter {
+    id: string;
+    name: string;
+    spawnCommand: string; // typed into the session's shell
+    startupDelayMs: number; // wait after spawning before the first prompt
+    completionProfile: string; // key of COMPLETION_PROFILES (completion-detector.ts)
+    interruptKeys: string[]; // stop the current turn (cancel, budget exhausted)
+    exitKeys: string; // quit the agent gracefully
+    formatPrompt(prompt: string): string; // what to write to submit a prompt
+}
+
+// Per-job choice, persisted on the Job. command is only used by the 'repl' adapter.
+export interface JobAgentConfig {
+    id: string;
+    command?: string;
+}
+
+export const DEFAULT_AGENT_ID = 'claude';
+
+function resolveClaudeCommand(): string {
+    if (os.platform() !== 'win32') return 'claude';
+
+    // npm global installs land in %APPDATA%\npm; the call operator keeps PowerShell happy with spaces
+    const npmShim = process.env.APPDATA ? path.join(process.env.APPDATA, 'npm', 'claude.cmd') : null;
+    return npmShim && fs.existsSync(npmShim) ? `& "${npmShim}"` : 'claude';
+}
+
+function createClaudeAdapter(): AgentAdapter {
+    return {
+        id: 'claude',
+        name: 'Claude Code',
+        spawnCommand: resolveClaudeCommand(),
+        startupDelayMs: 2000,
+        completionProfile: 'claude',
+        // Esc stops Claude's current turn, Ctrl+C anything else (e.g. claude not up yet)
+        interruptKeys: ['\x1b', '\x03'],
+        exitKeys: '/exit\r',
+        formatPrompt: prompt => prompt + '\r'
+    };
+}
+
+// Any line-oriented REPL agent started by a shell command (e.g. "aider --no-auto-commits")
+function createReplAdapter(command?: string): AgentAdapter {
+    if (!command?.trim()) throw new Error('The REPL agent needs a command');
+    return {
+        id: 'repl',
+        name: `REPL: ${command}`,
+        spawnCommand: command.trim(),
+        startupDelayMs: 3000,
+        completionProfile: 'shell',
+        interruptKeys: ['\x03'],
+        exitKeys: '\x04', // EOF
+        // Line-based input: newlines would submit early, so flatten them
+        formatPrompt: prompt => prompt.replace(/\r?\n+/g, ' ') + '\r'
+    };
+}
+
+const AGENT_ADAPTERS: Record<string, { name: string, needsCommand: boolean, create: (config: JobAgentConfig) => AgentAdapter }> = {
+    claude: { name: 'Claude Code', needsCommand: false, create: () => createClaudeAdapter() },
+    repl: { name: 'Any REPL command', needsCommand: true, create: config => createReplAdapter(config.command) },
+};
+
+// Throws for unknown agents or a missing REPL command
+export function getAgentAdapter(config?: JobAgentConfig): AgentAdapter {
+    const id = config?.id || DEFAULT_AGENT_ID;
+    const entry = AGENT_ADAPTERS[id];
+    if (!entry) throw new Error(`Unknown agent: ${id}`);
+    return entry.create(config || { id });
+}
+
+export function setupAgentHandlers() {
+    ipcMain.handle('agent-list', () => {
+        return Object.entries(AGENT_ADAPTERS).map(([id, a]) => ({ id, name: a.name, needsCommand: a.needsCommand }));
+    });
+}
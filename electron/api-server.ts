@@ -0,0 +1,375 @@
+import { ipcMain } from 'electron';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { jobManager, jobEvents, Job, JobBudget } from './job-manager';
+import { createSnapshot, listSnapshots, readSnapshotTranscript, isSnapshotId, saveContract, loadContract, Contract, VerifyStep } from './snapshot-manager';
+import type { JobAgentConfig } from './agent-adapter';
+import type { Orchestrator } from './orchestrator';
+
+/**
+ * Local HTTP/JSON API: the renderer's IPC operations for scripts and editor extensions.
+ * Listens on 127.0.0.1 only; every request needs the token from ~/.natsuki/api-token
+ * (Authorization: Bearer <token>, or ?token= for EventSource, which can't set headers).
+ *
+ *   GET  /api/jobs                        list (newest first)
+ *   POST /api/jobs                        create { description, cwd?, verifySteps?, budget?, useWorktree?, agent? }
+ *   GET  /api/jobs/:id
+ *   POST /api/jobs/:id/start              { cwd? }
+ *   GET  /api/jobs/:id/snapshots
+ *   POST /api/jobs/:id/snapshots          snapshot of the job's workspace now
+ *   GET  /api/jobs/:id/snapshots/:sid/transcript   agent output the snapshot covers { text, truncated, range }
+ *   POST /api/jobs/:id/review             { fresh? } review the latest (or a new) snapshot
+ *   GET  /api/jobs/:id/contract
+ *   PUT  /api/jobs/:id/contract           contract JSON
+ *   GET  /api/events                      Server-Sent Events, `job-update` per change
+ */
+
+const TOKEN_FILE = path.join(os.homedir(), '.natsuki', 'api-token');
+export const DEFAULT_API_PORT = 7317;
+const MAX_BODY_BYTES = 1024 * 1024;
+const SSE_HEARTBEAT_MS = 15000;
+
+export interface ApiServerStatus {
+    running: boolean;
+    port?: number;
+    tokenFile: string;
+    error?: string;
+}
+
+class ApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    status?: number; // on success, default 200
+    handler: (params: string[], body: Record<string, unknown>) => Promise<unknown> | unknown;
+}
+
+// Created once and reused, so clients can keep reading it from disk
+function loadOrCreateToken(): string {
+    try {
+        const token = fs.readFileSync(TOKEN_FILE, 'utf-8').trim();
+        if (token) return token;
+    } catch {
+        // first start
+    }
+    const token = randomBytes(32).toString('hex');
+    fs.mkdirSync(path.dirname(TOKEN_FILE), { recursive: true });
+    fs.writeFileSync(TOKEN_FILE, token + '\n', { mode: 0o600 });
+    return token;
+}
+
+// e.g. /api/jobs/%E0 is the client's mistake, not a server error
+function decodeParam(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        throw new ApiError(400, 'Malformed path');
+    }
+}
+
+const BUDGET_LIMITS: (keyof JobBudget)[] = ['maxFixIterations', 'maxRuntimeMs', 'maxReviewTokens', 'maxReviewCostUsd'];
+
+// Limits are non-negative finite numbers; a bad one would otherwise end the job at its first check
+function parseBudget(value: unknown): JobBudget | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'object' || Array.isArray(value)) throw new ApiError(400, 'budget must be an object');
+    const budget: JobBudget = {};
+    Object.entries(value).forEach(([key, limit]) => {
+        if (!BUDGET_LIMITS.includes(key as keyof JobBudget)) throw new ApiError(400, `Unknown budget limit: ${key}`);
+        if (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 0) {
+            throw new ApiError(400, `budget.${key} must be a non-negative number`);
+        }
+        budget[key as keyof JobBudget] = limit;
+    });
+    return budget;
+}
+
+// Jobs run in an existing directory, named absolutely (the server's own cwd means nothing to a client)
+function parseCwd(value: unknown): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string' || !path.isAbsolute(value)) throw new ApiError(400, 'cwd must be an absolute path');
+    if (!fs.statSync(value, { throwIfNoEntry: false })?.isDirectory()) throw new ApiError(400, `cwd is not a directory: ${value}`);
+    return value;
+}
+
+function parseVerifySteps(value: unknown): VerifyStep[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) throw new ApiError(400, 'verifySteps must be an array');
+    return value.map((step, i) => {
+        if (!step || typeof step !== 'object' || typeof step.profile !== 'string' || !step.profile) {
+            throw new ApiError(400, `verifySteps[${i}].profile is required`);
+        }
+        if (step.continueOnError !== undefined && typeof step.continueOnError !== 'boolean') {
+            throw new ApiError(400, `verifySteps[${i}].continueOnError must be a boolean`);
+        }
+        return { profile: step.profile, continueOnError: step.continueOnError };
+    });
+}
+
+function parseAgent(value: unknown): JobAgentConfig | undefined {
+    if (value === undefined || value === null) return undefined;
+    const agent = value as { id?: unknown, command?: unknown };
+    if (typeof value !== 'object' || typeof agent.id !== 'string' || !agent.id) throw new ApiError(400, 'agent.id is required');
+    if (agent.command !== undefined && typeof agent.command !== 'string') throw new ApiError(400, 'agent.command must be a string');
+    return { id: agent.id, command: agent.command };
+}
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload ?? null));
+}
+
+function readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new ApiError(413, 'Request body too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            const text = Buffer.concat(chunks).toString('utf-8');
+            if (!text.trim()) return resolve({});
+            let body: unknown;
+            try {
+                body = JSON.parse(text);
+            } catch {
+                return reject(new ApiError(400, 'Body is not valid JSON'));
+            }
+            if (!body || typeof body !== 'object' || Array.isArray(body)) return reject(new ApiError(400, 'Body must be a JSON object'));
+            resolve(body as Record<string, unknown>);
+        });
+        req.on('error', reject);
+    });
+}
+
+export class ApiServer {
+    private server: http.Server | null = null;
+    private port?: number;
+    private token = '';
+    private streams: Set<http.ServerResponse> = new Set();
+    private routes: Route[];
+    private lastError?: string;
+
+    constructor(private orchestrator: Orchestrator) {
+        this.routes = this.buildRoutes();
+        jobEvents.on('update', (job: Job) => this.broadcast('job-update', job));
+    }
+
+    status(): ApiServerStatus {
+        return { running: !!this.server, port: this.port, tokenFile: TOKEN_FILE, error: this.lastError };
+    }
+
+    async start(port: number = DEFAULT_API_PORT): Promise<ApiServerStatus> {
+        if (this.server && this.port === port) return this.status();
+        await this.stop();
+
+        this.token = loadOrCreateToken();
+        const server = http.createServer((req, res) => {
+            this.handle(req, res).catch(e => {
+                const status = e instanceof ApiError ? e.status : 500;
+                if (status === 500) console.error('[API] Request failed:', e);
+                if (!res.headersSent) sendJson(res, status, { success: false, error: e instanceof Error ? e.message : String(e) });
+                else res.end();
+            });
+        });
+
+        try {
+            await new Promise<void>((resolve, reject) => {
+                server.once('error', reject);
+                server.listen(port, '127.0.0.1', () => {
+                    server.off('error', reject);
+                    resolve();
+                });
+            });
+        } catch (e) {
+            this.lastError = e instanceof Error ? e.message : String(e);
+            console.error(`[API] Cannot listen on 127.0.0.1:${port}:`, this.lastError);
+            return this.status();
+        }
+
+        this.server = server;
+        this.port = port;
+        this.lastError = undefined;
+        console.log(`[API] Listening on http://127.0.0.1:${port} (token in ${TOKEN_FILE})`);
+        return this.status();
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = null;
+        this.port = undefined;
+        this.streams.forEach(res => res.end());
+        this.streams.clear();
+        const closed = new Promise<void>(resolve => server.close(() => resolve()));
+        server.closeAllConnections(); // idle keep-alive sockets would hold close() open
+        await closed;
+        console.log('[API] Stopped');
+    }
+
+    private buildRoutes(): Route[] {
+        const requireJob = (id: string): Job => {
+            const job = jobManager.getJob(id);
+            if (!job) throw new ApiError(404, 'Job not found');
+            return job;
+        };
+
+        return [
+            {
+                method: 'GET', pattern: /^\/api\/jobs$/,
+                handler: () => jobManager.getAllJobs().sort((a, b) => b.createdAt - a.createdAt)
+            },
+            {
+                method: 'POST', pattern: /^\/api\/jobs$/, status: 201,
+                handler: (_, body) => {
+                    const { description, useWorktree } = body;
+                    if (typeof description !== 'string' || !description.trim()) throw new ApiError(400, 'description is required');
+                    if (useWorktree !== undefined && typeof useWorktree !== 'boolean') throw new ApiError(400, 'useWorktree must be a boolean');
+                    const cwd = parseCwd(body.cwd);
+                    const verifySteps = parseVerifySteps(body.verifySteps);
+                    const budget = parseBudget(body.budget);
+                    const agent = parseAgent(body.agent);
+                    const job = jobManager.createJob(description, undefined, cwd, { verifySteps, budget, useWorktree, agent });
+                    this.orchestrator.publish(job);
+                    return job;
+                }
+            },
+            {
+                method: 'GET', pattern: /^\/api\/jobs\/([^/]+)$/,
+                handler: ([id]) => requireJob(id)
+            },
+            {
+                method: 'POST', pattern: /^\/api\/jobs\/([^/]+)\/start$/,
+                handler: ([id], { cwd }) => this.orchestrator.startJob(id, parseCwd(cwd) || requireJob(id).workspace || '')
+            },
+            {
+                method: 'GET', pattern: /^\/api\/jobs\/([^/]+)\/snapshots$/,
+                handler: ([id]) => listSnapshots(requireJob(id).id)
+            },
+            {
+                method: 'POST', pattern: /^\/api\/jobs\/([^/]+)\/snapshots$/,
+                handler: ([id]) => {
+                    const job = requireJob(id);
+                    return createSnapshot(job.worktree?.path || job.workspace || process.cwd(), job.id, job.description);
+                }
+            },
+            {
+                method: 'GET', pattern: /^\/api\/jobs\/([^/]+)\/snapshots\/([^/]+)\/transcript$/,
+                handler: ([id, snapshotId]) => {
+                    if (!isSnapshotId(snapshotId)) throw new ApiError(400, 'Malformed snapshot id');
+                    return readSnapshotTranscript(requireJob(id).id, snapshotId).catch(() => {
+                        throw new ApiError(404, 'Snapshot not found');
+                    });
+                }
+            },
+            {
+                method: 'POST', pattern: /^\/api\/jobs\/([^/]+)\/review$/,
+                handler: ([id], { fresh }) => this.orchestrator.reviewJob(requireJob(id).id, !!fresh)
+            },
+            {
+                method: 'GET', pattern: /^\/api\/jobs\/([^/]+)\/contract$/,
+                handler: async ([id]) => {
+                    const contract = await loadContract(requireJob(id).id);
+                    if (!contract) throw new ApiError(404, 'No contract for this job');
+                    return contract;
+                }
+            },
+            {
+                method: 'PUT', pattern: /^\/api\/jobs\/([^/]+)\/contract$/,
+                handler: ([id], body) => {
+                    const contract = body as unknown as Contract;
+                    if (!contract.levels) throw new ApiError(400, 'contract.levels is required');
+                    return saveContract(requireJob(id).id, contract);
+                }
+            },
+        ];
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+        // A foreign Host means a DNS-rebound page, not a local client
+        const host = (req.headers.host || '').replace(/:\d+$/, '');
+        if (!['127.0.0.1', 'localhost', '[::1]'].includes(host)) throw new ApiError(403, 'Forbidden host');
+        if (!this.isAuthorized(req, url)) throw new ApiError(401, 'Missing or invalid token');
+
+        if (req.method === 'GET' && url.pathname === '/api/events') {
+            this.openStream(res);
+            return;
+        }
+
+        const methodRoutes = this.routes.filter(r => r.pattern.test(url.pathname));
+        if (!methodRoutes.length) throw new ApiError(404, 'Not found');
+        const route = methodRoutes.find(r => r.method === req.method);
+        if (!route) throw new ApiError(405, 'Method not allowed');
+
+        const params = route.pattern.exec(url.pathname)!.slice(1).map(decodeParam);
+        const body = req.method === 'GET' ? {} : await readBody(req);
+        const result = await route.handler(params, body);
+
+        // IPC-style { success: false } results keep their shape but get an error status
+        const failed = !!result && typeof result === 'object' && (result as { success?: boolean }).success === false;
+        sendJson(res, failed ? 400 : route.status || 200, result);
+    }
+
+    private isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+        const header = req.headers.authorization || '';
+        const given = header.startsWith('Bearer ') ? header.slice(7).trim() : url.searchParams.get('token') || '';
+        const a = Buffer.from(given);
+        const b = Buffer.from(this.token);
+        return a.length === b.length && timingSafeEqual(a, b);
+    }
+
+    private openStream(res: http.ServerResponse) {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive'
+        });
+        res.write(': connected\n\n');
+        this.streams.add(res);
+
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+        res.on('close', () => {
+            clearInterval(heartbeat);
+            this.streams.delete(res);
+        });
+    }
+
+    private broadcast(event: string, payload: unknown) {
+        if (!this.streams.size) return;
+        const message = `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`;
+        this.streams.forEach(res => res.write(message));
+    }
+}
+
+// Off until the renderer turns it on (setting kept in localStorage, pushed on startup)
+export function setupApiServer(orchestrator: Orchestrator) {
+    const apiServer = new ApiServer(orchestrator);
+
+    ipcMain.handle('api-server-set', async (_, { enabled, port }: { enabled: boolean, port?: number }) => {
+        if (!enabled) {
+            await apiServer.stop();
+            return apiServer.status();
+        }
+        const validPort = Number.isInteger(port) && port! > 0 && port! < 65536 ? port! : DEFAULT_API_PORT;
+        return apiServer.start(validPort);
+    });
+
+    ipcMain.handle('api-server-status', () => apiServer.status());
+    return apiServer;
+}
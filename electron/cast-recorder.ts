@@ -0,0 +1,209 @@
+import { ipcMain } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { builder, ptyManager } from './pty-manager';
+import { jobEvents, Job, JobStatus } from './job-manager';
+
+/**
+ * Records what a job's agent did, with timing, as asciicast v2 (https://docs.asciinema.org/manual/asciicast/v2/)
+ * next to the job's snapshots: ~/.natsuki/snapshots/<jobId>/session-<startedAt>.cast.
+ *
+ *   {"version": 2, "width": 80, "height": 30, "timestamp": 1760000000, "title": "...", "env": {...}}
+ *   [0.52, "o", "output"]        output, seconds since the header timestamp
+ *   [3.10, "r", "120x40"]        terminal resized
+ *   [9.87, "m", "snapshot ..."]  marker: status changes and snapshots, for jumping in the player
+ *
+ * One recording per attach of a job to a PTY session; it plays in asciinema too.
+ */
+
+const SNAPSHOT_BASE_DIR = path.join(os.homedir(), '.natsuki', 'snapshots');
+const MAX_CAST_BYTES = 64 * 1024 * 1024; // output past this is dropped, markers are still written
+const CAST_NAME = /^[\w.-]+\.cast$/;
+const JOB_ID = /^job-\d+$/; // ids come from the renderer; anything else never reaches a path
+
+export interface CastRecording {
+    name: string;
+    size: number;
+    startedAt: number;
+    sessionId?: string;
+}
+
+class CastRecorder {
+    private fd: number | null = null;
+    private startedAt = Date.now();
+    private bytes = 0;
+    private truncated = false;
+
+    constructor(readonly file: string, readonly sessionId: string, size: { cols: number, rows: number }, title: string) {
+        this.guard(() => {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            this.fd = fs.openSync(file, 'a');
+            this.writeLine({
+                version: 2,
+                width: size.cols,
+                height: size.rows,
+                timestamp: Math.floor(this.startedAt / 1000),
+                title,
+                env: { TERM: 'xterm-256color', SHELL: os.platform() === 'win32' ? 'powershell.exe' : 'bash', NATSUKI_SESSION: sessionId }
+            });
+        });
+    }
+
+    output(data: string) {
+        if (this.truncated) return;
+        if (this.bytes + data.length > MAX_CAST_BYTES) {
+            this.truncated = true;
+            this.marker('recording truncated (size limit)');
+            return;
+        }
+        this.event('o', data);
+    }
+
+    resize(cols: number, rows: number) {
+        this.event('r', `${cols}x${rows}`);
+    }
+
+    marker(label: string) {
+        this.event('m', label);
+    }
+
+    close() {
+        if (this.fd === null) return;
+        this.guard(() => fs.closeSync(this.fd!));
+        this.fd = null;
+    }
+
+    private event(type: 'o' | 'r' | 'm', data: string) {
+        if (this.fd === null) return;
+        const elapsed = Math.round(Date.now() - this.startedAt) / 1000;
+        this.guard(() => this.writeLine([elapsed, type, data]));
+    }
+
+    private writeLine(value: unknown) {
+        const line = JSON.stringify(value) + '\n';
+        fs.writeSync(this.fd!, line);
+        this.bytes += line.length;
+    }
+
+    // Disk errors end the recording, never the job
+    private guard(fn: () => void) {
+        try {
+            fn();
+        } catch (e) {
+            console.warn(`[Cast] Recording ${this.file} stopped:`, e);
+            if (this.fd !== null) {
+                try { fs.closeSync(this.fd); } catch { /* already broken */ }
+            }
+            this.fd = null;
+        }
+    }
+}
+
+// jobId -> open recording
+const recordings = new Map<string, CastRecorder>();
+
+function jobCastDir(jobId: string): string {
+    return path.join(SNAPSHOT_BASE_DIR, jobId);
+}
+
+// Hooked up on the first recording, so the CLI records without the IPC setup
+let listening = false;
+function listen() {
+    if (listening) return;
+    listening = true;
+
+    builder.on('data', ({ sessionId, data }: { sessionId: string, data: string }) => {
+        recordings.forEach(r => { if (r.sessionId === sessionId) r.output(data); });
+    });
+
+    builder.on('resize', ({ sessionId, cols, rows }: { sessionId: string, cols: number, rows: number }) => {
+        recordings.forEach(r => { if (r.sessionId === sessionId) r.resize(cols, rows); });
+    });
+
+    builder.on('exit', ({ sessionId, exitCode }: { sessionId: string, exitCode: number }) => {
+        recordings.forEach((r, jobId) => {
+            if (r.sessionId !== sessionId) return;
+            r.marker(`session exited (code ${exitCode})`);
+            stopJobRecording(jobId);
+        });
+    });
+
+    // Status changes become markers so the player can jump to e.g. the review that failed
+    jobEvents.on('transition', ({ job, to, reason }: { job: Job, to: JobStatus, reason?: string }) => {
+        markJobRecording(job.id, reason ? `${to}: ${reason}` : to);
+    });
+}
+
+// Starts recording the job's session; a no-op if it's already being recorded
+export function startJobRecording(job: Job, sessionId: string) {
+    listen();
+    const current = recordings.get(job.id);
+    if (current?.sessionId === sessionId) return;
+    current?.close();
+
+    const size = ptyManager.getSize(sessionId) || { cols: 80, rows: 30 };
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = path.join(jobCastDir(job.id), `session-${stamp}.cast`);
+    recordings.set(job.id, new CastRecorder(file, sessionId, size, `${job.id}: ${job.description}`));
+    console.log(`[Cast] Recording ${job.id} to ${file}`);
+}
+
+export function stopJobRecording(jobId: string) {
+    recordings.get(jobId)?.close();
+    recordings.delete(jobId);
+}
+
+export function markJobRecording(jobId: string, label: string) {
+    recordings.get(jobId)?.marker(label);
+}
+
+// Recordings of a job, oldest first
+export function listJobRecordings(jobId: string): CastRecording[] {
+    if (!JOB_ID.test(jobId)) return [];
+    const dir = jobCastDir(jobId);
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+        .filter(f => CAST_NAME.test(f))
+        .map(name => {
+            const file = path.join(dir, name);
+            const stat = fs.statSync(file);
+            const recording: CastRecording = { name, size: stat.size, startedAt: stat.birthtimeMs };
+            try {
+                const header = JSON.parse(readFirstLine(file));
+                recording.startedAt = header.timestamp * 1000;
+                recording.sessionId = header.env?.NATSUKI_SESSION;
+            } catch {
+                // header unreadable: keep file times
+            }
+            return recording;
+        })
+        .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+function readFirstLine(file: string): string {
+    const buf = Buffer.alloc(4096);
+    const fd = fs.openSync(file, 'r');
+    try {
+        const n = fs.readSync(fd, buf, 0, buf.length, 0);
+        return buf.subarray(0, n).toString('utf-8').split('\n')[0];
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+export function readJobRecording(jobId: string, name: string): string | null {
+    if (!JOB_ID.test(jobId) || !CAST_NAME.test(name)) return null;
+    const file = path.join(jobCastDir(jobId), name);
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+}
+
+export function setupCastHandlers() {
+    ipcMain.handle('job-recordings', (_, jobId: string) => {
+        return listJobRecordings(jobId);
+    });
+
+    ipcMain.handle('job-recording-read', (_, { jobId, name }: { jobId: string, name: string }) => {
+        return readJobRecording(jobId, name);
+    });
+}
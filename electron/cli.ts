@@ -0,0 +1,407 @@
+import * as path from 'path';
+import { Orchestrator, RollbackMode } from './orchestrator';
+import { jobManager, jobEvents, Job, JobStatus, JobBudget, DEFAULT_JOB_BUDGET } from './job-manager';
+import { builder, ptyManager } from './pty-manager';
+import { setReviewerProvider, setEnsembleConfig, ReviewResult, EnsemblePolicy } from './llm-service';
+import { stripAnsi } from './completion-detector';
+import { VERIFY_PROFILE_NAMES, VerifyStep, readSnapshotTranscript } from './snapshot-manager';
+import { normalizeTerminalOutput } from './terminal-normalizer';
+import { getAgentAdapter, JobAgentConfig } from './agent-adapter';
+import { ApiServer, DEFAULT_API_PORT } from './api-server';
+
+/**
+ * Headless entry point: the same orchestration loop as the desktop app, driven from a terminal
+ * (CI, SSH). Jobs live in the same ~/.natsuki/jobs.json, so don't run it next to the app.
+ * Built to dist-electron/cli.cjs (`npm run build:cli`) and started by bin/natsuki.js.
+ */
+
+const USAGE = `Usage:
+  natsuki run "<task>" [options]   Run a job until it is approved, fails or needs a human
+      --cwd <dir>              Workspace (default: current directory)
+      --verify <steps>         Comma-separated verify profiles (${VERIFY_PROFILE_NAMES.join(', ')}); default lint
+      --keep-going             Run every verify step even after one fails
+      --agent <id>             Agent adapter (claude, repl); default claude
+      --agent-cmd <command>    Command for the repl agent
+      --worktree               Run in a natsuki/<jobId> git worktree
+      --reviewer <provider>    anthropic, gemini, openai, tiered or ensemble
+      --ensemble <providers>   Ensemble members, e.g. anthropic,gemini (default all three)
+      --policy <rule>          Ensemble consensus: strictest (default), majority or weighted
+      --weights <list>         Weighted votes, e.g. anthropic=2,gemini=1
+      --max-fixes <n>          Auto-fix rounds (default 2)
+      --max-minutes <n>        Runtime budget
+      --max-cost <usd>         Reviewer spend budget
+      --commit                 Commit the job's changes when approved
+      --rollback <mode>        Undo the job's edits on 'block' or any failure ('failed')
+      --fix-chain <depth>      On BLOCK, start fix jobs up to this depth
+      --quiet                  Don't stream the agent's terminal
+  natsuki review <jobId> [--fresh] [--reviewer <provider> ...] [--json]
+                                   Review a job's latest snapshot (--fresh takes a new one)
+  natsuki jobs [--json]            List jobs, newest first
+  natsuki transcript <jobId> [snapshotId] [--plain]
+                                   The agent's output a snapshot covers (default: latest snapshot);
+                                   --plain renders it as text instead of raw terminal output
+  natsuki serve [--port <n>]       Serve the local HTTP API (default port ${DEFAULT_API_PORT}) until Ctrl+C
+
+  --verbose prints the [Module] logs to stderr. Reviewer keys come from
+  ANTHROPIC_API_KEY, GEMINI_API_KEY and OPENAI_API_KEY.
+
+Exit codes: 0 approved/completed, 1 failed or cancelled, 2 waiting for approval or a permission
+prompt, 64 usage error, 130 interrupted`;
+
+const EXIT = { OK: 0, FAILED: 1, WAITING: 2, USAGE: 64, INTERRUPTED: 130 };
+
+// Statuses the loop stops in on its own
+// paused: only a permission prompt escalated by the workspace policy pauses a CLI job
+const SETTLED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled', 'waiting_approval', 'paused'];
+
+const VALUE_FLAGS = ['cwd', 'verify', 'agent', 'agent-cmd', 'reviewer', 'max-fixes', 'max-minutes', 'max-cost', 'rollback', 'fix-chain', 'port', 'ensemble', 'policy', 'weights'];
+
+const SINGLE_REVIEWERS = ['anthropic', 'gemini', 'openai'];
+
+class UsageError extends Error { }
+
+interface ParsedArgs {
+    command?: string;
+    positional: string[];
+    flags: Record<string, string | boolean>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+    const parsed: ParsedArgs = { positional: [], flags: {} };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            if (parsed.command === undefined) parsed.command = arg;
+            else parsed.positional.push(arg);
+            continue;
+        }
+        const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+        if (!VALUE_FLAGS.includes(name)) {
+            parsed.flags[name] = true;
+            continue;
+        }
+        const value = inline ?? argv[++i];
+        if (value === undefined) throw new UsageError(`--${name} needs a value`);
+        parsed.flags[name] = value;
+    }
+    return parsed;
+}
+
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+    const value = args.flags[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+function numberFlag(args: ParsedArgs, name: string): number | undefined {
+    const value = stringFlag(args, name);
+    if (value === undefined) return undefined;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < 0) throw new UsageError(`--${name} must be a non-negative number`);
+    return n;
+}
+
+function parseVerifySteps(args: ParsedArgs): VerifyStep[] | undefined {
+    const value = stringFlag(args, 'verify');
+    if (!value) return undefined;
+    const continueOnError = !!args.flags['keep-going'];
+    return value.split(',').map(s => s.trim()).filter(Boolean).map(profile => {
+        if (!VERIFY_PROFILE_NAMES.includes(profile)) throw new UsageError(`Unknown verify profile: ${profile}`);
+        return { profile, continueOnError };
+    });
+}
+
+function parseBudget(args: ParsedArgs): JobBudget | undefined {
+    const maxFixes = numberFlag(args, 'max-fixes');
+    const maxMinutes = numberFlag(args, 'max-minutes');
+    const maxCost = numberFlag(args, 'max-cost');
+    if (maxFixes === undefined && maxMinutes === undefined && maxCost === undefined) return undefined;
+    return {
+        maxFixIterations: maxFixes !== undefined ? Math.floor(maxFixes) : DEFAULT_JOB_BUDGET.maxFixIterations,
+        maxRuntimeMs: maxMinutes !== undefined ? maxMinutes * 60 * 1000 : undefined,
+        maxReviewCostUsd: maxCost
+    };
+}
+
+function parseAgent(args: ParsedArgs): JobAgentConfig | undefined {
+    const id = stringFlag(args, 'agent');
+    if (!id) return undefined;
+    const agent: JobAgentConfig = { id, command: stringFlag(args, 'agent-cmd') };
+    try {
+        getAgentAdapter(agent); // fail before a job exists
+    } catch (e) {
+        throw new UsageError(e instanceof Error ? e.message : String(e));
+    }
+    return agent;
+}
+
+function applyReviewer(args: ParsedArgs) {
+    const reviewer = stringFlag(args, 'reviewer');
+    if (!reviewer) return;
+    if (![...SINGLE_REVIEWERS, 'tiered', 'ensemble'].includes(reviewer)) throw new UsageError(`Unknown reviewer: ${reviewer}`);
+    if (reviewer === 'ensemble') applyEnsemble(args);
+    setReviewerProvider(reviewer);
+}
+
+function applyEnsemble(args: ParsedArgs) {
+    const members = stringFlag(args, 'ensemble')?.split(',').map(s => s.trim()).filter(Boolean);
+    members?.forEach(m => {
+        if (!SINGLE_REVIEWERS.includes(m)) throw new UsageError(`Unknown ensemble member: ${m}`);
+    });
+
+    const policy = stringFlag(args, 'policy');
+    if (policy && !['strictest', 'majority', 'weighted'].includes(policy)) throw new UsageError(`Unknown policy: ${policy}`);
+
+    let weights: Record<string, number> | undefined;
+    const weightList = stringFlag(args, 'weights');
+    if (weightList) {
+        weights = {};
+        for (const pair of weightList.split(',')) {
+            const [name, value] = pair.split('=').map(s => s.trim());
+            const n = Number(value);
+            if (!SINGLE_REVIEWERS.includes(name) || !value || !Number.isFinite(n) || n < 0) throw new UsageError(`Bad weight: ${pair}`);
+            weights[name] = n;
+        }
+    }
+
+    setEnsembleConfig({ providers: members, policy: policy as EnsemblePolicy | undefined, weights });
+}
+
+// Status lines go to stderr so stdout stays the agent's output
+function note(message: string) {
+    process.stderr.write(`natsuki: ${message}\n`);
+}
+
+function print(text: string) {
+    process.stdout.write(text + '\n');
+}
+
+// The job plus every fix job chained off it
+function chainJobIds(rootId: string): string[] {
+    const ids: string[] = [];
+    const stack = [rootId];
+    while (stack.length) {
+        const id = stack.pop()!;
+        ids.push(id);
+        stack.push(...(jobManager.getJob(id)?.childJobIds || []));
+    }
+    return ids;
+}
+
+function createOrchestrator(verbose: boolean) {
+    return new Orchestrator({
+        send: (channel, payload) => {
+            if (verbose) console.log(`[CLI] ${channel}: ${(payload as Job)?.id ?? ''}`);
+        }
+    }, { recoverInterrupted: false });
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Waits until the job settles. A BLOCK with fix chaining on hands over to the fix job it started,
+// so the outcome is the end of the chain. Settled-but-pipeline-active means a fix job may still be coming.
+async function waitForOutcome(orchestrator: Orchestrator, jobId: string): Promise<Job> {
+    let currentId = jobId;
+    for (; ;) {
+        await sleep(500);
+        const job = jobManager.getJob(currentId);
+        if (!job) throw new Error(`Job ${currentId} disappeared`);
+        if (!SETTLED_STATUSES.includes(job.status) || orchestrator.isPipelineActive(currentId)) continue;
+
+        const lastChildId = job.childJobIds?.[job.childJobIds.length - 1];
+        const child = lastChildId ? jobManager.getJob(lastChildId) : undefined;
+        if (job.status === 'failed' && child && child.status !== 'idle') {
+            note(`${job.id} was blocked, following fix job ${child.id}`);
+            currentId = child.id;
+            continue;
+        }
+        return job;
+    }
+}
+
+function formatReview(result: ReviewResult): string {
+    const lines = [`${result.decision} (${result.achievedLevel}): ${result.summary}`];
+    result.ensemble?.votes.forEach(v => lines.push(`  ${v.provider}: ${v.decision ?? `failed (${v.error})`}`));
+    result.ensemble?.disagreements.forEach(d => lines.push(`  disagreement: ${d}`));
+    result.issues?.forEach(issue => lines.push(`  [${issue.severity}] ${issue.title}${issue.reportedBy ? ` (${issue.reportedBy.join(', ')})` : ''}`));
+    return lines.join('\n');
+}
+
+async function runCommand(args: ParsedArgs, verbose: boolean): Promise<number> {
+    const task = args.positional[0];
+    if (!task) throw new UsageError('run needs a task description');
+
+    const cwd = path.resolve(stringFlag(args, 'cwd') || process.cwd());
+    const verifySteps = parseVerifySteps(args);
+    const budget = parseBudget(args);
+    const agent = parseAgent(args);
+    applyReviewer(args);
+
+    const rollback = stringFlag(args, 'rollback');
+    if (rollback && !['off', 'block', 'failed'].includes(rollback)) throw new UsageError(`Unknown rollback mode: ${rollback}`);
+    const fixChainDepth = numberFlag(args, 'fix-chain');
+
+    const orchestrator = createOrchestrator(verbose);
+    orchestrator.configure({
+        autoCommit: !!args.flags.commit,
+        rollbackMode: (rollback || 'off') as RollbackMode,
+        fixChain: { autoStart: !!fixChainDepth, maxDepth: Math.floor(fixChainDepth || 0) }
+    });
+
+    await jobManager.whenReady();
+    const job = jobManager.createJob(task, undefined, cwd, { verifySteps, budget, useWorktree: !!args.flags.worktree, agent });
+    note(`job ${job.id} in ${cwd}`);
+
+    if (!args.flags.quiet) {
+        // Only job sessions exist in this process, so everything is the agent's terminal
+        const plain = !process.stdout.isTTY;
+        builder.on('data', ({ data }: { sessionId: string, data: string }) => {
+            process.stdout.write(plain ? stripAnsi(data) : data);
+        });
+    }
+    jobEvents.on('transition', ({ job: changed, to, reason }: { job: Job, to: JobStatus, reason?: string }) => {
+        note(`${changed.id} -> ${to}${reason ? ` (${reason})` : ''}`);
+    });
+
+    let interrupted = false;
+    process.on('SIGINT', () => {
+        if (interrupted) process.exit(EXIT.INTERRUPTED);
+        interrupted = true;
+        note('cancelling (Ctrl+C again to quit immediately)');
+        chainJobIds(job.id)
+            .filter(id => jobManager.canPerform(id, 'cancel'))
+            .forEach(id => orchestrator.cancelJob(id, 'Cancelled from the CLI'));
+    });
+
+    const started = await orchestrator.startJob(job.id, cwd);
+    if (!started.success) {
+        note(`could not start: ${started.error}`);
+        return interrupted ? EXIT.INTERRUPTED : EXIT.FAILED;
+    }
+
+    const outcome = await waitForOutcome(orchestrator, job.id);
+    await orchestrator.settleHooks();
+    if (outcome.reviewResult) process.stderr.write(formatReview(outcome.reviewResult) + '\n');
+    if (outcome.commitSha) note(`committed ${outcome.commitSha.slice(0, 7)}`);
+    if (outcome.worktree) note(`changes are on branch ${outcome.worktree.branch} (${outcome.worktree.path})`);
+    note(`${outcome.id} ${outcome.status}${outcome.logSummary ? `: ${outcome.logSummary}` : ''}`);
+
+    if (interrupted) return EXIT.INTERRUPTED;
+    if (outcome.status === 'completed') return EXIT.OK;
+    if (outcome.status === 'waiting_approval' || outcome.status === 'paused') return EXIT.WAITING;
+    return EXIT.FAILED;
+}
+
+async function reviewCommand(args: ParsedArgs, verbose: boolean): Promise<number> {
+    const jobId = args.positional[0];
+    if (!jobId) throw new UsageError('review needs a job id');
+    applyReviewer(args);
+
+    await jobManager.whenReady();
+    if (!jobManager.getJob(jobId)) {
+        note(`job ${jobId} not found`);
+        return EXIT.FAILED;
+    }
+
+    const res = await createOrchestrator(verbose).reviewJob(jobId, !!args.flags.fresh);
+    if (!res.success || !res.result) {
+        note(res.error || 'review failed');
+        return EXIT.FAILED;
+    }
+
+    print(args.flags.json ? JSON.stringify({ jobId, snapshotId: res.snapshotId, ...res.result }, null, 2) : formatReview(res.result));
+    return res.result.decision === 'APPROVE' || res.result.decision === 'EXCELLENT' ? EXIT.OK : EXIT.FAILED;
+}
+
+async function jobsCommand(args: ParsedArgs): Promise<number> {
+    await jobManager.whenReady();
+    const jobs = jobManager.getAllJobs().sort((a, b) => b.createdAt - a.createdAt);
+    if (args.flags.json) {
+        print(JSON.stringify(jobs, null, 2));
+        return EXIT.OK;
+    }
+    if (!jobs.length) print('No jobs');
+    jobs.forEach(j => {
+        const created = new Date(j.createdAt).toISOString().replace('T', ' ').slice(0, 16);
+        print(`${j.id}  ${j.status.padEnd(16)} ${created}  ${j.description.split('\n')[0].slice(0, 60)}`);
+    });
+    return EXIT.OK;
+}
+
+async function transcriptCommand(args: ParsedArgs): Promise<number> {
+    const [jobId, requestedSnapshotId] = args.positional;
+    if (!jobId) throw new UsageError('transcript needs a job id');
+
+    await jobManager.whenReady();
+    const snapshotId = requestedSnapshotId || jobManager.getJob(jobId)?.latestSnapshotId;
+    if (!snapshotId) {
+        note(`no snapshot for ${jobId}`);
+        return EXIT.FAILED;
+    }
+
+    try {
+        const { text, truncated, range } = await readSnapshotTranscript(jobId, snapshotId);
+        if (truncated) note('the start of this transcript is no longer on disk');
+        process.stdout.write(args.flags.plain ? await normalizeTerminalOutput(text, range?.cols, range?.rows) + '\n' : text);
+        return EXIT.OK;
+    } catch (e) {
+        note(`cannot read snapshot ${snapshotId}: ${e instanceof Error ? e.message : e}`);
+        return EXIT.FAILED;
+    }
+}
+
+// Headless host for the local API: jobs created over HTTP run in this process
+async function serveCommand(args: ParsedArgs, verbose: boolean): Promise<number> {
+    const port = numberFlag(args, 'port') ?? DEFAULT_API_PORT;
+    await jobManager.whenReady();
+
+    const server = new ApiServer(createOrchestrator(verbose));
+    const status = await server.start(Math.floor(port));
+    if (!status.running) {
+        note(`could not start the API: ${status.error}`);
+        return EXIT.FAILED;
+    }
+    note(`API on http://127.0.0.1:${status.port}, token in ${status.tokenFile} (Ctrl+C to stop)`);
+
+    await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+    await server.stop();
+    return EXIT.OK;
+}
+
+async function main(): Promise<number> {
+    const args = parseArgs(process.argv.slice(2));
+    const verbose = !!args.flags.verbose;
+
+    // Module logs ([Orchestrator] ...) would interleave with the agent's output
+    console.log = verbose ? (...a: unknown[]) => console.error(...a) : () => { };
+
+    switch (args.command) {
+        case 'run': return runCommand(args, verbose);
+        case 'review': return reviewCommand(args, verbose);
+        case 'jobs': return jobsCommand(args);
+        case 'transcript': return transcriptCommand(args);
+        case 'serve': return serveCommand(args, verbose);
+        case 'help':
+            print(USAGE);
+            return EXIT.OK;
+        case undefined:
+            throw new UsageError('No command given');
+        default:
+            throw new UsageError(`Unknown command: ${args.command}`);
+    }
+}
+
+main()
+    .catch(e => {
+        if (e instanceof UsageError) {
+            note(e.message);
+            process.stderr.write(USAGE + '\n');
+            return EXIT.USAGE;
+        }
+        console.error(e);
+        return EXIT.FAILED;
+    })
+    .then(async code => {
+        ptyManager.killAll();
+        await jobManager.flush();
+        process.exit(code);
+    });
@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Completion detection: decides when the agent in a PTY session has finished its turn.
+ * Each detector reports a confidence (0..1) or a veto ("still working"); the monitor
+ * combines them per agent profile and fires once the combined confidence is high enough.
+ */
+
+// CSI / OSC / single-char escape sequences
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI_PATTERN, '');
+}
+
+// Spinner glyphs; a chunk made only of these (plus counters) is a redraw, not progress
+const SPINNER_CHARS = /[·✢✳✶✻✽*⠀-⣿|/\\\-\s]/gu;
+
+export interface CompletionSignal {
+    detector: string;
+    confidence: number; // how sure the detector is that the agent is done
+    veto?: boolean; // the detector knows the agent is still working
+    detail: string;
+}
+
+export interface CompletionDecision {
+    confidence: number;
+    signals: CompletionSignal[];
+    reason: string;
+}
+
+export interface CompletionDetector {
+    id: string;
+    onOutput(text: string, now: number): void; // ANSI-stripped output
+    evaluate(now: number): CompletionSignal | null;
+    dispose?(): void;
+}
+
+// Fires on output silence. Spinner frames and status lines that only differ in their
+// counters ("Thinking… 12s") don't count as output, so a chatty spinner can't keep it awake.
+export class SilenceDetector implements CompletionDetector {
+    id = 'silence';
+    private lastOutput = Date.now();
+    private lastChunk = '';
+
+    constructor(private thresholdMs = 5000, private longThresholdMs = 60000) { }
+
+    onOutput(text: string, now: number) {
+        const normalized = text.replace(/\d+/g, '#').replace(SPINNER_CHARS, '');
+        if (!normalized || normalized === this.lastChunk) return;
+        this.lastChunk = normalized;
+        this.lastOutput = now;
+    }
+
+    evaluate(now: number): CompletionSignal | null {
+        const silentMs = now - this.lastOutput;
+        const detail = `no output for ${Math.round(silentMs / 1000)}s`;
+        if (silentMs >= this.longThresholdMs) return { detector: this.id, confidence: 0.85, detail };
+        if (silentMs >= this.thresholdMs) return { detector: this.id, confidence: 0.5, detail };
+        return null;
+    }
+}
+
+// Matches the agent's idle prompt (and its busy indicator) on the stripped stream.
+// Whichever pattern was seen last wins; a stale busy indicator stops vetoing after busyHoldMs.
+export class PromptPatternDetector implements CompletionDetector {
+    id = 'prompt';
+    private tail = '';
+    private lastOutput = 0;
+    private lastReady = 0;
+    private lastBusy = 0;
+
+    constructor(
+        private readyPatterns: RegExp[],
+        private busyPatterns: RegExp[] = [],
+        private settleMs = 2000,
+        private busyHoldMs = 30000
+    ) { }
+
+    onOutput(text: string, now: number) {
+        this.tail = (this.tail + text).slice(-4000);
+        this.lastOutput = now;
+        // Look a bit before the new chunk so patterns split across chunks still match
+        const window = this.tail.slice(-(text.length + 200));
+        if (this.readyPatterns.some(p => p.test(window))) this.lastReady = now;
+        if (this.busyPatterns.some(p => p.test(window))) this.lastBusy = now;
+    }
+
+    evaluate(now: number): CompletionSignal | null {
+        if (this.lastBusy >= this.lastReady && this.lastBusy && now - this.lastBusy < this.busyHoldMs) {
+            return { detector: this.id, confidence: 0, veto: true, detail: 'busy indicator on screen' };
+        }
+        if (this.lastReady > this.lastBusy && now - this.lastOutput >= this.settleMs) {
+            return { detector: this.id, confidence: 0.9, detail: 'idle prompt matched' };
+        }
+        return null;
+    }
+}
+
+const FS_IGNORED_DIRS = new Set(['.git', 'node_modules', 'dist', 'dist-electron']);
+const MAX_WATCHED_DIRS = 2000; // inotify watches are a per-user limit; past this, deeper changes go unseen
+
+function isDirectory(file: string): boolean {
+    try {
+        return fs.statSync(file).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * When files in a session's workspace last changed. One per session (see pty-manager.ts),
+ * reused by every turn's monitor. Each directory gets its own non-recursive watch so ignored
+ * trees like node_modules are never walked or watched; directories created later are added.
+ */
+export class WorkspaceWatcher {
+    lastChange = 0;
+    private watchers = new Map<string, fs.FSWatcher>();
+    private capped = false;
+    private disposed = false;
+
+    constructor(readonly root: string) {
+        this.watchTree(root);
+    }
+
+    get watching(): boolean {
+        return this.watchers.size > 0;
+    }
+
+    private watchTree(dir: string) {
+        if (this.disposed || this.watchers.has(dir)) return;
+        if (this.watchers.size >= MAX_WATCHED_DIRS) {
+            if (!this.capped) console.warn(`[Completion] Watching the first ${MAX_WATCHED_DIRS} directories of ${this.root} only`);
+            this.capped = true;
+            return;
+        }
+        try {
+            const watcher = fs.watch(dir, (_event, file) => this.onChange(dir, file?.toString()));
+            watcher.on('error', () => this.unwatch(dir)); // e.g. the directory was removed
+            this.watchers.set(dir, watcher);
+        } catch (e) {
+            if (dir === this.root) console.warn(`[Completion] Cannot watch ${dir}, fs-quiet detector disabled:`, e);
+            return;
+        }
+
+        let entries: fs.Dirent[] = [];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            // unreadable: only its own entries are watched
+        }
+        entries
+            .filter(e => e.isDirectory() && !FS_IGNORED_DIRS.has(e.name))
+            .forEach(e => this.watchTree(path.join(dir, e.name)));
+    }
+
+    private onChange(dir: string, file?: string) {
+        if (file && FS_IGNORED_DIRS.has(file)) return;
+        this.lastChange = Date.now();
+        if (!file) return;
+
+        const full = path.join(dir, file);
+        if (this.watchers.has(full)) {
+            if (!fs.existsSync(full)) this.unwatch(full);
+        } else if (isDirectory(full)) {
+            this.watchTree(full);
+        }
+    }
+
+    private unwatch(dir: string) {
+        this.watchers.forEach((watcher, watched) => {
+            if (watched !== dir && !watched.startsWith(dir + path.sep)) return;
+            watcher.close();
+            this.watchers.delete(watched);
+        });
+    }
+
+    dispose() {
+        this.disposed = true;
+        this.watchers.forEach(w => w.close());
+        this.watchers.clear();
+    }
+}
+
+// Vetoes while files in the workspace are still changing (e.g. a slow npm install or a big write)
+export class FsQuietDetector implements CompletionDetector {
+    id = 'fs-quiet';
+
+    constructor(private workspace: WorkspaceWatcher, private quietMs = 3000) { }
+
+    onOutput() { }
+
+    evaluate(now: number): CompletionSignal | null {
+        if (!this.workspace.watching) return null;
+        const sinceChange = now - this.workspace.lastChange;
+        if (this.workspace.lastChange && sinceChange < this.quietMs) {
+            return { detector: this.id, confidence: 0, veto: true, detail: `files changed ${Math.round(sinceChange / 1000)}s ago` };
+        }
+        return { detector: this.id, confidence: 0.3, detail: 'workspace quiet' };
+    }
+}
+
+// --- Profiles (one per agent) ---
+
+export interface CompletionProfile {
+    threshold: number; // combined confidence needed to advance
+    createDetectors(workspace: WorkspaceWatcher): CompletionDetector[];
+}
+
+export const COMPLETION_PROFILES: Record<string, CompletionProfile> = {
+    // Claude Code: the input box footer shows "? for shortcuts" when idle, "esc to interrupt" while working
+    claude: {
+        threshold: 0.8,
+        createDetectors: workspace => [
+            new PromptPatternDetector([/\? for shortcuts/, /^\s*[│|]?\s*>\s*[│|]?\s*$/m], [/esc to interrupt/i]),
+            new SilenceDetector(5000, 60000),
+            new FsQuietDetector(workspace)
+        ]
+    },
+    // Plain shell command: back at a $/#/> prompt
+    shell: {
+        threshold: 0.8,
+        createDetectors: workspace => [
+            new PromptPatternDetector([/[$#>]\s*$/]),
+            new SilenceDetector(5000, 30000),
+            new FsQuietDetector(workspace)
+        ]
+    }
+};
+
+export const DEFAULT_COMPLETION_PROFILE = 'claude';
+
+/**
+ * Feeds a session's output to its detectors and polls them. Any veto blocks;
+ * otherwise confidences are combined as independent evidence (1 - Π(1 - c)).
+ * Fires the callback once, then stops.
+ */
+export class CompletionMonitor {
+    private detectors: CompletionDetector[];
+    private threshold: number;
+    private timer: NodeJS.Timeout | null;
+
+    constructor(workspace: WorkspaceWatcher, profileName: string, private callback: (decision: CompletionDecision) => void, pollMs = 500) {
+        const profile = COMPLETION_PROFILES[profileName] || COMPLETION_PROFILES[DEFAULT_COMPLETION_PROFILE];
+        this.detectors = profile.createDetectors(workspace);
+        this.threshold = profile.threshold;
+        this.timer = setInterval(() => this.tick(), pollMs);
+    }
+
+    feed(data: string) {
+        const text = stripAnsi(data);
+        const now = Date.now();
+        this.detectors.forEach(d => d.onOutput(text, now));
+    }
+
+    private tick() {
+        const now = Date.now();
+        const signals = this.detectors.map(d => d.evaluate(now)).filter((s): s is CompletionSignal => !!s);
+        if (signals.some(s => s.veto)) return;
+
+        const confidence = 1 - signals.reduce((acc, s) => acc * (1 - s.confidence), 1);
+        if (confidence < this.threshold) return;
+
+        const reason = signals.map(s => `${s.detector}: ${s.detail}`).join(', ');
+        const callback = this.callback;
+        this.dispose();
+        callback({ confidence, signals, reason });
+    }
+
+    dispose() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        this.detectors.forEach(d => d.dispose?.());
+    }
+}
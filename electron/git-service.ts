@@ -1,8 +1,197 @@
 import { ipcMain } from 'electron'
-import { exec } from 'child_process'
+import { exec, execFile } from 'child_process'
 import util from 'util'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import { randomUUID } from 'crypto'
 
 const execAsync = util.promisify(exec);
+const execFileAsync = util.promisify(execFile);
+
+const WORKTREE_BASE_DIR = path.join(os.homedir(), '.natsuki', 'worktrees');
+
+// Per-job isolation: a branch checked out in its own worktree, outside the user's checkout
+export interface JobWorktree {
+    repoPath: string; // the user's checkout the worktree was created from
+    path: string;
+    branch: string;
+    baseRef: string; // commit the branch started from
+    merged?: 'merge' | 'cherry-pick';
+    mergedAt?: number;
+}
+
+// Pre-job state of a workspace, for rolling back a job's edits
+export interface WorkspaceBaseline {
+    head: string; // HEAD when the job started
+    state: string; // commit of the full working tree at that time (tracked + untracked, not ignored)
+    ref: string; // keeps `state` from being garbage collected
+    createdAt: number;
+    rolledBackAt?: number;
+}
+
+// Internal bookkeeping commits (baselines) shouldn't depend on the user's git identity
+const NATSUKI_GIT_IDENTITY = {
+    GIT_AUTHOR_NAME: 'natsuki', GIT_AUTHOR_EMAIL: 'natsuki@localhost',
+    GIT_COMMITTER_NAME: 'natsuki', GIT_COMMITTER_EMAIL: 'natsuki@localhost'
+};
+
+// No shell: args are passed as-is (paths with spaces, branch names)
+async function git(args: string[], cwd: string, env?: NodeJS.ProcessEnv): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, env: env ? { ...process.env, ...env } : undefined, maxBuffer: 10 * 1024 * 1024 });
+    return stdout.trim();
+}
+
+// Creates natsuki/<jobId> at the repo's HEAD in ~/.natsuki/worktrees/<jobId> (reused if it already exists)
+export async function createJobWorktree(repoPath: string, jobId: string): Promise<JobWorktree> {
+    const root = await git(['rev-parse', '--show-toplevel'], repoPath).catch(() => {
+        throw new Error(`${repoPath} is not a git repository`);
+    });
+    const baseRef = await git(['rev-parse', 'HEAD'], root).catch(() => {
+        throw new Error('Repository has no commits yet, cannot create a worktree');
+    });
+    const branch = `natsuki/${jobId}`;
+    const worktreePath = path.join(WORKTREE_BASE_DIR, jobId);
+
+    if (fs.existsSync(worktreePath)) {
+        console.log(`[Git] Reusing worktree ${worktreePath}`);
+        return { repoPath: root, path: worktreePath, branch, baseRef: await git(['merge-base', 'HEAD', branch], root).catch(() => baseRef) };
+    }
+
+    await fs.promises.mkdir(WORKTREE_BASE_DIR, { recursive: true });
+    await git(['worktree', 'add', '-b', branch, worktreePath, baseRef], root);
+    console.log(`[Git] Created worktree ${worktreePath} on ${branch}`);
+    return { repoPath: root, path: worktreePath, branch, baseRef };
+}
+
+// Stages and commits `paths` (relative to the repo root; everything when omitted) from the repo root,
+// so a workspace in a subdirectory works too. Other staged changes stay out of the commit.
+// Returns the new SHA, or null if nothing was staged.
+export async function commitChanges(cwd: string, message: string, paths?: string[]): Promise<string | null> {
+    const root = await git(['rev-parse', '--show-toplevel'], cwd);
+    const env = { GIT_LITERAL_PATHSPECS: '1' }; // file names, not globs
+    let pathspec: string[] = [];
+    if (paths) {
+        // Gone from disk and index (e.g. a deleted untracked file): nothing to commit, and `git add` would fail on it
+        const tracked = new Set(paths.length ? (await git(['ls-files', '-z', '--', ...paths], root, env)).split('\0') : []);
+        const committable = paths.filter(p => tracked.has(p) || fs.existsSync(path.join(root, p)));
+        if (!committable.length) return null;
+        pathspec = ['--', ...committable];
+    }
+    await git(['add', '-A', ...pathspec], root, env);
+
+    // diff --cached --quiet exits 1 when something is staged
+    const hasStaged = await git(['diff', '--cached', '--quiet', ...pathspec], root, env).then(() => false, () => true);
+    if (!hasStaged) return null;
+
+    await git(['commit', '-m', message, ...pathspec], root, env);
+    return git(['rev-parse', 'HEAD'], root);
+}
+
+// Brings the job branch into the user's checkout. Conflicts are aborted so the checkout is left as it was.
+export async function mergeJobWorktree(worktree: JobWorktree, mode: 'merge' | 'cherry-pick'): Promise<void> {
+    const commits = await git(['rev-list', `${worktree.baseRef}..${worktree.branch}`], worktree.repoPath);
+    if (!commits) throw new Error(`${worktree.branch} has no commits to ${mode}`);
+
+    try {
+        if (mode === 'merge') {
+            await git(['merge', '--no-ff', '--no-edit', worktree.branch], worktree.repoPath);
+        } else {
+            await git(['cherry-pick', `${worktree.baseRef}..${worktree.branch}`], worktree.repoPath);
+        }
+    } catch (e) {
+        await git([mode, '--abort'], worktree.repoPath).catch(() => { /* nothing in progress */ });
+        throw new Error(`${mode} of ${worktree.branch} failed (aborted): ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+// Snapshots the whole working tree into a commit without touching the real index or files.
+// Uses a copy of the index so only changed files are hashed.
+async function captureState(root: string): Promise<string> {
+    const tmpIndex = path.join(os.tmpdir(), `natsuki-index-${randomUUID()}`);
+    const realIndex = path.resolve(root, await git(['rev-parse', '--git-path', 'index'], root));
+    try {
+        if (fs.existsSync(realIndex)) await fs.promises.copyFile(realIndex, tmpIndex);
+        const env = { ...NATSUKI_GIT_IDENTITY, GIT_INDEX_FILE: tmpIndex };
+        await git(['add', '-A'], root, env);
+        const tree = await git(['write-tree'], root, env);
+        return await git(['commit-tree', tree, '-p', 'HEAD', '-m', 'natsuki workspace state'], root, env);
+    } finally {
+        await fs.promises.rm(tmpIndex, { force: true });
+    }
+}
+
+// Records HEAD and the current working state (incl. the user's uncommitted and untracked files)
+export async function captureBaseline(cwd: string, jobId: string): Promise<WorkspaceBaseline> {
+    const root = await git(['rev-parse', '--show-toplevel'], cwd);
+    const head = await git(['rev-parse', 'HEAD'], root);
+    const state = await captureState(root);
+    const ref = `refs/natsuki/baselines/${jobId}`;
+    await git(['update-ref', ref, state], root);
+    return { head, state, ref, createdAt: Date.now() };
+}
+
+// Files whose content differs from the baseline now (committed or not), relative to the repo root
+export async function getChangedSinceBaseline(cwd: string, baseline: WorkspaceBaseline): Promise<string[]> {
+    const root = await git(['rev-parse', '--show-toplevel'], cwd);
+    const current = await captureState(root);
+    return (await git(['diff', '--name-only', '--no-renames', '-z', baseline.state, current], root)).split('\0').filter(Boolean);
+}
+
+/**
+ * Puts every file the job touched back to its baseline content: modified/deleted files are
+ * restored, files that didn't exist at the baseline (incl. new untracked ones) are removed.
+ * Files the job didn't touch (the user's unrelated edits) and ignored files are left alone.
+ * Commits made since the baseline are undone with a soft reset (their changes are restored too),
+ * but only the job's own: with jobId set, a commit without its `Natsuki-Job: <jobId>` trailer
+ * (another job's, the user's) makes the rollback refuse. Worktree branches pass no jobId.
+ */
+export async function rollbackToBaseline(cwd: string, baseline: WorkspaceBaseline, jobId?: string): Promise<{ restored: string[], removed: string[] }> {
+    const root = await git(['rev-parse', '--show-toplevel'], cwd);
+
+    const head = await git(['rev-parse', 'HEAD'], root);
+    if (head !== baseline.head) {
+        const descends = await git(['merge-base', '--is-ancestor', baseline.head, head], root).then(() => true, () => false);
+        if (!descends) throw new Error('HEAD is no longer on top of the commit the job started from; revert with git instead');
+        if (jobId) {
+            const foreign = Number(await git(['rev-list', '--count', '--invert-grep', `--grep=^Natsuki-Job: ${jobId}$`, `${baseline.head}..${head}`], root));
+            if (foreign) throw new Error(`${foreign} commit(s) since the job started weren't made by it; revert with git instead`);
+        }
+        const committed = (await git(['diff', '--name-only', '-z', baseline.head, head], root)).split('\0').filter(Boolean);
+        await git(['reset', '--soft', baseline.head], root);
+        if (committed.length) await git(['restore', '--staged', '--', ...committed], root);
+    }
+
+    const current = await captureState(root);
+    const fields = (await git(['diff', '--name-status', '--no-renames', '-z', baseline.state, current], root)).split('\0').filter(Boolean);
+
+    const restored: string[] = [];
+    const removed: string[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+        (fields[i] === 'A' ? removed : restored).push(fields[i + 1]);
+    }
+
+    if (restored.length) await git(['restore', `--source=${baseline.state}`, '--worktree', '--', ...restored], root);
+    for (const file of removed) {
+        await fs.promises.rm(path.join(root, file), { force: true });
+        // Drop directories that only existed for the removed files
+        let dir = path.dirname(path.join(root, file));
+        while (dir.startsWith(root + path.sep) && (await fs.promises.readdir(dir).catch(() => ['?'])).length === 0) {
+            await fs.promises.rmdir(dir);
+            dir = path.dirname(dir);
+        }
+    }
+
+    console.log(`[Git] Rolled back ${root}: ${restored.length} restored, ${removed.length} removed`);
+    return { restored, removed };
+}
+
+// Removes the worktree directory and, optionally, its branch
+export async function removeJobWorktree(worktree: JobWorktree, deleteBranch: boolean): Promise<void> {
+    await git(['worktree', 'remove', '--force', worktree.path], worktree.repoPath);
+    if (deleteBranch) await git(['branch', '-D', worktree.branch], worktree.repoPath);
+    console.log(`[Git] Removed worktree ${worktree.path}${deleteBranch ? ` and ${worktree.branch}` : ''}`);
+}
 
 export function setupGitHandlers() {
     ipcMain.handle('git-status', async (_event, cwd: string) => {
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { spawn } from 'child_process';
+import { killTree } from './snapshot-manager';
+import type { Job } from './job-manager';
+
+/**
+ * Lifecycle hooks: user commands run at job phase boundaries, configured per workspace in
+ * <workspace>/.natsuki/hooks.json, e.g.
+ *
+ *   { "pre-start": "./scripts/license-check.sh",
+ *     "on-complete": ["notify-bot done", { "command": "slow.sh", "timeoutMs": 300000 }] }
+ *
+ * Each command runs through the shell in the job's working tree. It gets
+ * { hook, job, snapshotPath } as JSON on stdin and NATSUKI_* variables in its env.
+ * A non-zero exit (or timeout) vetoes the step, except for on-fail, which only notifies.
+ */
+
+export type HookName = 'pre-start' | 'post-verify' | 'post-snapshot' | 'on-review' | 'on-complete' | 'on-fail';
+
+export const HOOK_NAMES: HookName[] = ['pre-start', 'post-verify', 'post-snapshot', 'on-review', 'on-complete', 'on-fail'];
+
+const NOTIFY_ONLY_HOOKS: HookName[] = ['on-fail'];
+
+const DEFAULT_HOOK_TIMEOUT_MS = 60 * 1000;
+
+export interface HookCommand {
+    command: string;
+    timeoutMs?: number;
+}
+
+export interface HookOutcome {
+    command: string;
+    exitCode: number;
+    durationMs: number;
+    timedOut: boolean;
+    outputTail: string;
+}
+
+export interface HookRunResult {
+    vetoed: boolean;
+    reason?: string;
+    outcomes: HookOutcome[];
+}
+
+export interface HookContext {
+    cwd: string; // where the commands run (the job's worktree or workspace)
+    snapshotPath?: string;
+    signal?: AbortSignal;
+}
+
+function hooksFile(workspace: string): string {
+    return path.join(workspace, '.natsuki', 'hooks.json');
+}
+
+// Read on every run so edits apply to the next hook without a restart
+export function loadHooks(workspace: string): Partial<Record<HookName, HookCommand[]>> {
+    const file = hooksFile(workspace);
+    if (!fs.existsSync(file)) return {};
+
+    let raw: Record<string, unknown>;
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (e) {
+        console.warn(`[Hooks] Ignoring unreadable ${file}:`, e);
+        return {};
+    }
+
+    const hooks: Partial<Record<HookName, HookCommand[]>> = {};
+    Object.entries(raw).forEach(([name, value]) => {
+        if (!HOOK_NAMES.includes(name as HookName)) {
+            console.warn(`[Hooks] Unknown hook '${name}' in ${file}`);
+            return;
+        }
+        const commands = (Array.isArray(value) ? value : [value])
+            .map(v => typeof v === 'string' ? { command: v } : v as HookCommand)
+            .filter(c => typeof c?.command === 'string' && c.command.trim());
+        if (commands.length) hooks[name as HookName] = commands;
+    });
+    return hooks;
+}
+
+function runHookCommand(hook: HookName, { command, timeoutMs = DEFAULT_HOOK_TIMEOUT_MS }: HookCommand, job: Job, ctx: HookContext): Promise<HookOutcome> {
+    const startedAt = Date.now();
+    return new Promise(resolve => {
+        let output = '';
+        let timedOut = false;
+
+        const child = spawn(command, {
+            cwd: ctx.cwd,
+            shell: true,
+            detached: os.platform() !== 'win32', // own process group, so killTree reaches the script's children
+            env: {
+                ...process.env,
+                NATSUKI_HOOK: hook,
+                NATSUKI_JOB_ID: job.id,
+                NATSUKI_JOB_STATUS: job.status,
+                NATSUKI_WORKSPACE: job.workspace || '',
+                NATSUKI_CWD: ctx.cwd,
+                NATSUKI_SNAPSHOT_PATH: ctx.snapshotPath || ''
+            }
+        });
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            killTree(child);
+        }, timeoutMs);
+        const onAbort = () => killTree(child);
+        ctx.signal?.addEventListener('abort', onAbort, { once: true });
+
+        const collect = (d: Buffer) => { output = (output + d.toString()).slice(-2000); };
+        child.stdout.on('data', collect);
+        child.stderr.on('data', collect);
+
+        // Scripts that don't read stdin close it early; that's fine
+        child.stdin.on('error', () => { });
+        child.stdin.end(JSON.stringify({ hook, job, snapshotPath: ctx.snapshotPath ?? null }));
+
+        const finish = (exitCode: number) => {
+            clearTimeout(timer);
+            ctx.signal?.removeEventListener('abort', onAbort);
+            resolve({ command, exitCode, durationMs: Date.now() - startedAt, timedOut, outputTail: output });
+        };
+        child.on('close', code => finish(code ?? -1));
+        child.on('error', err => {
+            output += err.message;
+            finish(-1);
+        });
+    });
+}
+
+/**
+ * Runs the workspace's commands for one hook, in order. The first failing command vetoes
+ * and skips the rest; notify-only hooks run everything and never veto.
+ */
+export async function runHooks(hook: HookName, job: Job, ctx: HookContext): Promise<HookRunResult> {
+    const commands = loadHooks(job.workspace || ctx.cwd)[hook] || [];
+    const notifyOnly = NOTIFY_ONLY_HOOKS.includes(hook);
+    const outcomes: HookOutcome[] = [];
+
+    for (const cmd of commands) {
+        if (ctx.signal?.aborted) break;
+        console.log(`[Hooks] ${hook} for ${job.id}: ${cmd.command}`);
+        const outcome = await runHookCommand(hook, cmd, job, ctx);
+        outcomes.push(outcome);
+
+        if (outcome.exitCode !== 0 && !notifyOnly) {
+            const why = outcome.timedOut ? 'timed out' : `exited with ${outcome.exitCode}`;
+            const detail = outcome.outputTail.trim().split('\n').pop();
+            return { vetoed: true, reason: `'${cmd.command}' ${why}${detail ? `: ${detail}` : ''}`, outcomes };
+        }
+        if (outcome.exitCode !== 0) console.warn(`[Hooks] ${hook} command '${cmd.command}' exited with ${outcome.exitCode}`);
+    }
+    return { vetoed: false, outcomes };
+}
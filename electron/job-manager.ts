@@ -1,10 +1,86 @@
 import { ipcMain } from 'electron';
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { logEvent } from './log-service';
+import type { VerifyStep } from './snapshot-manager';
+import type { JobWorktree, WorkspaceBaseline } from './git-service';
+import type { JobAgentConfig } from './agent-adapter';
 
 // Reuse types (duplicated to avoid build complexity between src/electron)
-export type JobStatus = 'idle' | 'running' | 'verifying' | 'snapshotting' | 'reviewing' | 'completed' | 'failed' | 'waiting_approval' | 'fixing';
+export type JobStatus = 'idle' | 'queued' | 'running' | 'verifying' | 'snapshotting' | 'reviewing' | 'completed' | 'failed' | 'waiting_approval' | 'fixing' | 'paused' | 'cancelled' | 'interrupted';
+
+// User-triggerable actions (start + orchestrator-proceed actions)
+export type JobAction = 'start' | 'approve' | 'fix' | 'retry' | 'queue' | 'dequeue' | 'pause' | 'resume' | 'cancel';
+
+// --- State Machine ---
+// Every status change goes through this table. Same-status updates are plain saves.
+const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+    idle: ['queued', 'running', 'failed', 'cancelled'],
+    queued: ['running', 'idle', 'failed', 'cancelled'],
+    running: ['verifying', 'failed', 'paused', 'cancelled', 'interrupted'],
+    fixing: ['verifying', 'failed', 'paused', 'cancelled', 'interrupted'],
+    verifying: ['snapshotting', 'failed', 'paused', 'cancelled', 'interrupted'],
+    snapshotting: ['reviewing', 'waiting_approval', 'failed', 'paused', 'cancelled', 'interrupted'],
+    reviewing: ['completed', 'fixing', 'failed', 'paused', 'cancelled', 'interrupted'],
+    waiting_approval: ['completed', 'fixing', 'verifying', 'running', 'failed', 'cancelled'],
+    paused: ['running', 'fixing', 'verifying', 'failed', 'cancelled'],
+    completed: ['running', 'queued'],
+    failed: ['running', 'queued', 'fixing', 'verifying', 'completed'],
+    cancelled: ['running', 'queued'],
+    // App quit/crashed mid-run; resume re-enters the pipeline at the last unfinished phase
+    interrupted: ['running', 'verifying', 'snapshotting', 'reviewing', 'waiting_approval', 'queued', 'failed', 'cancelled'],
+};
+
+// Which user actions make sense in each state (UI enables buttons from this)
+const JOB_ACTIONS: Record<JobStatus, JobAction[]> = {
+    idle: ['start', 'queue'],
+    queued: ['start', 'dequeue', 'cancel'],
+    running: ['pause', 'cancel'],
+    fixing: ['pause', 'cancel'],
+    verifying: ['pause', 'cancel'],
+    snapshotting: ['pause', 'cancel'],
+    reviewing: ['pause', 'cancel'],
+    waiting_approval: ['approve', 'fix', 'retry', 'start', 'cancel'],
+    paused: ['resume', 'cancel'],
+    completed: ['start', 'queue'],
+    failed: ['start', 'queue', 'fix', 'retry', 'approve'],
+    cancelled: ['start', 'queue'],
+    interrupted: ['resume', 'start', 'cancel'],
+};
+
+// Statuses that only make sense while the process that drives them is alive
+const IN_FLIGHT_STATUSES: JobStatus[] = ['running', 'fixing', 'verifying', 'snapshotting', 'reviewing'];
+
+export function canTransition(from: JobStatus, to: JobStatus): boolean {
+    return from === to || JOB_TRANSITIONS[from].includes(to);
+}
+
+// Emits 'transition' ({ job, from, to, reason }) after every accepted status change,
+// and 'update' (job) after any change at all, creation included
+export const jobEvents = new EventEmitter();
+
+// Per-job limits for the autonomous loop (unset = unlimited)
+export interface JobBudget {
+    maxFixIterations?: number;
+    maxRuntimeMs?: number; // time spent in running..reviewing (paused/waiting time doesn't count)
+    maxReviewTokens?: number;
+    maxReviewCostUsd?: number;
+}
+
+// Keeps the old hardcoded behaviour (2 auto-fix rounds) for jobs created without a budget
+export const DEFAULT_JOB_BUDGET: JobBudget = { maxFixIterations: 2 };
+
+export type BudgetKind = 'fixIterations' | 'runtime' | 'reviewTokens' | 'reviewCost';
+
+// What the job has consumed so far (reset on start)
+export interface JobUsage {
+    runtimeMs: number;
+    runningSince?: number; // set while the runtime clock is ticking
+    reviewTokens: number;
+    reviewCostUsd: number;
+}
 
 export interface Job {
     id: string;
@@ -12,6 +88,12 @@ export interface Job {
     status: JobStatus;
     createdAt: number;
     workspace?: string; // e.g. cwd
+    sessionId?: string; // PTY session the job runs in
+    agent?: JobAgentConfig; // coding CLI the job drives (Claude Code when unset)
+    // Set for template jobs: the full first prompt (description is the short title) and the recipe it came from
+    prompt?: string;
+    templateId?: string;
+    reviewer?: string; // review provider for this job (the global default when unset)
     history?: {
         timestamp: number;
         action: string;
@@ -20,18 +102,103 @@ export interface Job {
     logSummary?: string;
     latestSnapshotId?: string;
     autoFixCount?: number;
+    // Ordered verify pipeline (defaults to lint only when unset)
+    verifySteps?: VerifyStep[];
+    // Scheduler: run only after these jobs are completed
+    dependsOn?: string[];
+    queuedAt?: number;
+    // Status the job was in when paused (resume goes back there)
+    pausedFrom?: JobStatus;
+    // Set by startup recovery: status at the time of the crash and where resume picks up
+    interruptedFrom?: JobStatus;
+    resumePhase?: 'verify' | 'snapshot' | 'review';
+    // Process (app or CLI run) that last moved the job into an in-flight status
+    ownerPid?: number;
+    budget?: JobBudget;
+    usage?: JobUsage;
+    budgetExhausted?: BudgetKind;
+    // Fix job lineage: a fix job points at the job whose review it addresses, the parent lists its fix jobs
+    parentJobId?: string;
+    childJobIds?: string[];
+    chainDepth?: number; // 0 for user-created jobs, parent + 1 for fix jobs
+    // Run in a natsuki/<jobId> worktree instead of the user's checkout (created on start)
+    useWorktree?: boolean;
+    worktree?: JobWorktree;
+    // Set by the auto-commit step on approval
+    commitSha?: string;
+    // Pre-job HEAD + working state, captured on start (rollback target)
+    baseline?: WorkspaceBaseline;
     // We can store review result here too
     reviewResult?: any;
 }
 
 const JOBS_FILE = path.join(os.homedir(), '.natsuki', 'jobs.json');
+const JOBS_LOCK_FILE = `${JOBS_FILE}.lock`;
+const LOCK_WAIT_MS = 5000;
+const LOCK_STALE_MS = 10000; // no write takes this long: left behind by a crashed process
+
+// The app and CLI runs share jobs.json; writers take turns through an exclusively created lock file
+async function withJobsLock<T>(fn: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    for (; ;) {
+        try {
+            await (await fs.promises.open(JOBS_LOCK_FILE, 'wx')).close();
+            break;
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+            const lockedAt = await fs.promises.stat(JOBS_LOCK_FILE).then(s => s.mtimeMs, () => 0);
+            if (Date.now() - lockedAt > LOCK_STALE_MS) {
+                await fs.promises.rm(JOBS_LOCK_FILE, { force: true });
+                continue;
+            }
+            // A live holder's lock is never broken; the caller keeps its changes for the next write
+            if (Date.now() > deadline) throw new Error(`${JOBS_LOCK_FILE} is held by another process`);
+            await new Promise(r => setTimeout(r, 20));
+        }
+    }
+    try {
+        return await fn();
+    } finally {
+        await fs.promises.rm(JOBS_LOCK_FILE, { force: true });
+    }
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0); // signal 0: existence check only
+        return true;
+    } catch (e) {
+        return (e as NodeJS.ErrnoException).code === 'EPERM'; // alive, owned by another user
+    }
+}
+
+// null when the file exists but can't be parsed
+async function readJobsFile(): Promise<Job[] | null> {
+    try {
+        return JSON.parse(await fs.promises.readFile(JOBS_FILE, 'utf-8'));
+    } catch (e) {
+        return (e as NodeJS.ErrnoException).code === 'ENOENT' ? [] : null;
+    }
+}
 
 export class JobManager {
     private jobs: Map<string, Job> = new Map();
+    private ready: Promise<void>;
+    private saving: Promise<void> = Promise.resolve(); // writes are chained so they land in order
+    private dirty: Set<string> = new Set(); // jobs changed in this process since the last write
 
     constructor() {
-        this.loadJobs();
-        this.setupIPC();
+        this.ready = this.loadJobs();
+    }
+
+    // Resolves once jobs.json has been read (the desktop app doesn't wait, the CLI does)
+    public whenReady() {
+        return this.ready;
+    }
+
+    // Resolves once every pending write has reached disk (call before exiting a CLI process)
+    public flush() {
+        return this.saving;
     }
 
     private async loadJobs() {
@@ -48,33 +215,125 @@ export class JobManager {
         }
     }
 
-    private async saveJobs() {
+    private saveJobs() {
+        this.saving = this.saving.then(() => this.writeJobs());
+        return this.saving;
+    }
+
+    // Re-reads the file under the lock and replaces only the jobs changed here, so jobs another
+    // process (e.g. a CLI run) created or updated meanwhile survive
+    private async writeJobs() {
+        const ids = Array.from(this.dirty);
+        this.dirty.clear();
+        if (!ids.length) return;
         try {
-            const jobsArray = Array.from(this.jobs.values());
             await fs.promises.mkdir(path.dirname(JOBS_FILE), { recursive: true });
-            await fs.promises.writeFile(JOBS_FILE, JSON.stringify(jobsArray, null, 2));
+            await withJobsLock(async () => {
+                const onDisk = await readJobsFile() ?? Array.from(this.jobs.values());
+                const merged = new Map(onDisk.map(j => [j.id, j]));
+                ids.forEach(id => {
+                    const job = this.jobs.get(id);
+                    if (job) merged.set(id, job);
+                });
+                const tmp = `${JOBS_FILE}.${process.pid}.tmp`;
+                await fs.promises.writeFile(tmp, JSON.stringify(Array.from(merged.values()), null, 2));
+                await fs.promises.rename(tmp, JOBS_FILE);
+            });
         } catch (e) {
+            ids.forEach(id => this.dirty.add(id));
             console.error('[JobManager] Failed to save jobs:', e);
+            // Retried with the next save, or shortly; unref'd so a finished CLI run can still exit
+            setTimeout(() => this.saveJobs(), LOCK_WAIT_MS).unref();
         }
     }
 
+    /**
+     * Startup recovery: jobs persisted mid-run have no runtime anymore (PTY, pipeline).
+     * Marks them 'interrupted' and returns them so the Orchestrator can offer a resume.
+     * Jobs whose owning process is still alive (a CLI run) are left to it.
+     */
+    public async markInterruptedJobs(): Promise<Job[]> {
+        await this.ready;
+        const interrupted: Job[] = [];
+        this.jobs.forEach(job => {
+            if (!IN_FLIGHT_STATUSES.includes(job.status)) return;
+            // e.g. a CLI run started before the app: its jobs are still running there
+            if (job.ownerPid && job.ownerPid !== process.pid && isProcessAlive(job.ownerPid)) return;
+            const from = job.status;
+            const reason = `Interrupted by app restart while ${from}`;
+            const updated = this.transitionJob(job.id, 'interrupted', reason, { interruptedFrom: from, logSummary: reason });
+            if (updated) interrupted.push(updated);
+        });
+        if (interrupted.length) console.log(`[JobManager] Marked ${interrupted.length} job(s) as interrupted`);
+        return interrupted;
+    }
+
     // Public API for Orchestrator/Internal
     public getJob(id: string) {
         return this.jobs.get(id);
     }
 
+    // Status changes are routed through transitionJob so the table is always enforced
     public updateJob(id: string, updates: Partial<Job>) {
+        const job = this.jobs.get(id);
+        if (job && updates.status && updates.status !== job.status) {
+            return this.transitionJob(id, updates.status, undefined, updates);
+        }
+        return this.applyUpdate(id, updates);
+    }
+
+    /**
+     * Moves a job to a new status if the transition table allows it.
+     * Illegal moves are rejected (null) and logged; legal ones are recorded in history.
+     */
+    public transitionJob(id: string, to: JobStatus, reason?: string, updates: Partial<Job> = {}): Job | null {
+        const job = this.jobs.get(id);
+        if (!job) return null;
+
+        const from = job.status;
+        if (!canTransition(from, to)) {
+            console.warn(`[JobManager] Rejected illegal transition for ${id}: ${from} -> ${to}${reason ? ` (${reason})` : ''}`);
+            logEvent('job-illegal-transition', { jobId: id, from, to, reason });
+            return null;
+        }
+
+        if (from !== to) {
+            job.history = job.history || [];
+            job.history.push({ timestamp: Date.now(), action: 'transition', result: { from, to, reason } });
+        }
+        const owner = IN_FLIGHT_STATUSES.includes(to) ? { ownerPid: process.pid } : {};
+        const updated = this.applyUpdate(id, { ...updates, ...owner, status: to });
+        if (updated && from !== to) jobEvents.emit('transition', { job: updated, from, to, reason });
+        return updated;
+    }
+
+    public getAvailableActions(id: string): JobAction[] {
+        const job = this.jobs.get(id);
+        return job ? [...JOB_ACTIONS[job.status]] : [];
+    }
+
+    public canPerform(id: string, action: JobAction): boolean {
+        return this.getAvailableActions(id).includes(action);
+    }
+
+    private applyUpdate(id: string, updates: Partial<Job>) {
         const job = this.jobs.get(id);
         if (job) {
             Object.assign(job, updates);
             this.jobs.set(id, job); // redundant but explicit
+            this.dirty.add(id);
             this.saveJobs(); // Async save, don't await
+            jobEvents.emit('update', job);
             return job;
         }
         return null;
     }
 
-    public createJob(description: string, parentJobId?: string, workspace?: string): Job {
+    public getAllJobs(): Job[] {
+        return Array.from(this.jobs.values());
+    }
+
+    public createJob(description: string, parentJobId?: string, workspace?: string, options: Pick<Job, 'verifySteps' | 'budget' | 'useWorktree' | 'worktree' | 'agent' | 'prompt' | 'templateId' | 'reviewer'> = {}): Job {
         const id = `job-${Date.now()}`;
         const newJob: Job = {
             id,
@@ -83,23 +342,80 @@ export class JobManager {
             createdAt: Date.now(),
             workspace: workspace || process.cwd(), // Default to current if not provided? Or make explicit.
             history: [],
-            autoFixCount: 0
+            autoFixCount: 0,
+            verifySteps: options.verifySteps,
+            agent: options.agent,
+            prompt: options.prompt,
+            templateId: options.templateId,
+            reviewer: options.reviewer,
+            budget: { ...DEFAULT_JOB_BUDGET, ...options.budget },
+            useWorktree: options.useWorktree || !!options.worktree,
+            worktree: options.worktree,
+            chainDepth: 0
         };
+
+        const parent = parentJobId ? this.jobs.get(parentJobId) : undefined;
+        if (parent) {
+            newJob.parentJobId = parent.id;
+            newJob.chainDepth = (parent.chainDepth || 0) + 1;
+            parent.childJobIds = [...(parent.childJobIds || []), id];
+            this.dirty.add(parent.id);
+        }
+
         this.jobs.set(id, newJob);
+        this.dirty.add(id);
         this.saveJobs();
+        jobEvents.emit('update', newJob);
         console.log(`[JobManager] Created Job ${id}`);
         return newJob;
     }
 
-    private setupIPC() {
+    // Fix job (Workflow P0): a job whose description carries the review feedback for parentJobId
+    public createFixJob(parentJobId: string, reviewResult: any): Job {
+        console.log(`[JobManager] creating fix job for ${parentJobId}`);
+
+        // Generate Description Logic
+        const { decision, achievedLevel, missing, issues, summary } = reviewResult;
+        let desc = `[Fix] Review Feedback (${decision} - Level ${achievedLevel})\n\n`;
+        desc += `Parent Job: ${parentJobId}\n`;
+        desc += `Summary: ${summary}\n\n`;
+
+        if (missing?.minimum?.length > 0) {
+            desc += `MUST FIX (Minimum):\n${missing.minimum.map((m: any) => `- ${m}`).join('\n')}\n\n`;
+        }
+        if (missing?.middle?.length > 0) {
+            desc += `SHOULD FIX (Middle):\n${missing.middle.map((m: any) => `- ${m}`).join('\n')}\n\n`;
+        }
+        if (issues?.length > 0) {
+            desc += `ISSUES:\n${issues.map((i: any) => `- [${i.severity}] ${i.title}`).join('\n')}\n\n`;
+        }
+        desc += `Verify profile: lint+test`;
+
+        // Find parent job to inherit workspace
+        const parentJob = this.getJob(parentJobId);
+        const workspace = parentJob?.workspace;
+
+        // Fix jobs must not break anything else: lint is informational, tests gate.
+        // They work on the parent's changes, so they share its worktree (and branch).
+        return this.createJob(desc, parentJobId, workspace, {
+            verifySteps: [{ profile: 'lint', continueOnError: true }, { profile: 'test' }],
+            budget: parentJob?.budget,
+            useWorktree: parentJob?.useWorktree,
+            worktree: parentJob?.worktree,
+            agent: parentJob?.agent,
+            reviewer: parentJob?.reviewer
+        });
+    }
+
+    public setupIPC() {
         // List
         ipcMain.handle('job-list', () => {
             return Array.from(this.jobs.values()).sort((a, b) => b.createdAt - a.createdAt);
         });
 
         // Create
-        ipcMain.handle('job-create', (_, { description, cwd }: { description: string, cwd?: string }) => {
-            return this.createJob(description, undefined, cwd);
+        ipcMain.handle('job-create', (_, { description, cwd, verifySteps, budget, useWorktree, agent }: { description: string, cwd?: string, verifySteps?: VerifyStep[], budget?: JobBudget, useWorktree?: boolean, agent?: JobAgentConfig }) => {
+            return this.createJob(description, undefined, cwd, { verifySteps, budget, useWorktree, agent });
         });
 
         // Get Single
@@ -107,46 +423,21 @@ export class JobManager {
             return this.jobs.get(id);
         });
 
-        // Create Fix Job (Workflow P0)
-        ipcMain.handle('job-create-from-review', (_, { jobId, reviewResult }: { jobId: string, reviewResult: any }) => {
-            console.log(`[JobManager] creating fix job for ${jobId}`);
-
-            // Generate Description Logic
-            const { decision, achievedLevel, missing, issues, summary } = reviewResult;
-            let desc = `[Fix] Review Feedback (${decision} - Level ${achievedLevel})\n\n`;
-            desc += `Parent Job: ${jobId}\n`;
-            desc += `Summary: ${summary}\n\n`;
-
-            if (missing?.minimum?.length > 0) {
-                desc += `MUST FIX (Minimum):\n${missing.minimum.map((m: any) => `- ${m}`).join('\n')}\n\n`;
-            }
-            if (missing?.middle?.length > 0) {
-                desc += `SHOULD FIX (Middle):\n${missing.middle.map((m: any) => `- ${m}`).join('\n')}\n\n`;
-            }
-            if (issues?.length > 0) {
-                desc += `ISSUES:\n${issues.map((i: any) => `- [${i.severity}] ${i.title}`).join('\n')}\n\n`;
-            }
-            desc += `Verify profile: lint+test`;
-
-            // Find parent job to inherit workspace
-            const parentJob = this.getJob(jobId);
-            const workspace = parentJob?.workspace;
-
-            const fixJob = this.createJob(desc, jobId, workspace);
-
-            // TODO: In Phase 3.1, automatically START this job via Orchestrator?
-            // User requirement: "BLOCK/IMPROVE -> FixJob -> Run ... nonstop"
-            // So yes, we should probably start it?
-            // But 'orchestrator-start' requires frontend to trigger? 
-            // Or we can emit an event 'job-auto-start' to main?
-            // For v0.1: Creating it and having Frontend switch to it (via 'job-created' event?) is safer.
-            // The user said: "UI only" is bad. 
-            // If I return the new ID, the frontend can strictly switch to it and call run.
+        // State machine queries
+        ipcMain.handle('job-actions', (_, id: string) => {
+            return this.getAvailableActions(id);
+        });
 
-            return { success: true, job: fixJob };
+        ipcMain.handle('job-state-machine', () => {
+            return { transitions: JOB_TRANSITIONS, actions: JOB_ACTIONS };
         });
     }
 }
 
 // Global instance
 export const jobManager = new JobManager();
+
+// Desktop app only; the headless CLI uses jobManager directly
+export function setupJobHandlers() {
+    jobManager.setupIPC();
+}
@@ -0,0 +1,178 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import { jobManager, jobEvents, Job, JobStatus } from './job-manager';
+import type { Orchestrator } from './orchestrator';
+
+// Statuses that occupy a workspace slot. waiting_approval counts too: its changes
+// are still uncommitted, so starting another job there would mix the diffs.
+const WORKSPACE_BUSY_STATUSES: JobStatus[] = ['running', 'fixing', 'verifying', 'snapshotting', 'reviewing', 'waiting_approval', 'paused', 'interrupted'];
+
+const DEFAULT_CONCURRENCY = 1;
+
+// Concurrency slot a job occupies: worktree jobs have their own checkout, so they never share one
+function slotKey(job: Job): string {
+    if (job.worktree) return job.worktree.path;
+    if (job.useWorktree) return `worktree:${job.id}`;
+    return job.workspace || '';
+}
+
+/**
+ * JobScheduler holds the queue of jobs in the main process.
+ * Queued jobs start (via the Orchestrator) once all their dependsOn jobs are completed
+ * and their workspace has a free slot; they wait out a failed dependency (it may still be
+ * approved) and fail with a cancelled one. The queue itself is the set of 'queued' jobs
+ * (persisted in jobs.json), ordered by queuedAt.
+ */
+export class JobScheduler {
+    private mainWindow: BrowserWindow;
+    private orchestrator: Orchestrator;
+    private concurrency: Map<string, number> = new Map(); // workspace -> max active jobs
+    private tickScheduled = false;
+    private starting: Set<string> = new Set(); // started but still 'queued' until the orchestrator moves them on
+
+    constructor(win: BrowserWindow, orchestrator: Orchestrator) {
+        this.mainWindow = win;
+        this.orchestrator = orchestrator;
+        this.setupIPC();
+
+        // Any status change may free a slot or satisfy a dependency
+        jobEvents.on('transition', () => this.scheduleTick());
+        this.scheduleTick();
+    }
+
+    private setupIPC() {
+        ipcMain.handle('job-enqueue', (_, { jobId, cwd, dependsOn }: { jobId: string, cwd: string, dependsOn?: string[] }) => {
+            return this.enqueue(jobId, cwd, dependsOn);
+        });
+
+        ipcMain.handle('job-dequeue', (_, { jobId }: { jobId: string }) => {
+            return this.dequeue(jobId);
+        });
+
+        ipcMain.handle('scheduler-queue', () => {
+            return this.getQueue();
+        });
+
+        ipcMain.handle('scheduler-set-concurrency', (_, { workspace, limit }: { workspace: string, limit: number }) => {
+            return this.setConcurrency(workspace, limit);
+        });
+    }
+
+    private notify(job: Job) {
+        if (!this.mainWindow.isDestroyed()) this.mainWindow.webContents.send('job-update', job);
+    }
+
+    getQueue(): Job[] {
+        return jobManager.getAllJobs()
+            .filter(j => j.status === 'queued')
+            .sort((a, b) => (a.queuedAt || 0) - (b.queuedAt || 0));
+    }
+
+    setConcurrency(workspace: string, limit: number): { success: boolean, error?: string } {
+        if (!Number.isInteger(limit) || limit < 1) {
+            return { success: false, error: 'Concurrency limit must be a positive integer' };
+        }
+        this.concurrency.set(workspace, limit);
+        this.scheduleTick();
+        return { success: true };
+    }
+
+    enqueue(jobId: string, cwd: string, dependsOn: string[] = []): { success: boolean, job?: Job, error?: string } {
+        const job = jobManager.getJob(jobId);
+        if (!job) return { success: false, error: 'Job not found' };
+        if (!jobManager.canPerform(jobId, 'queue')) {
+            return { success: false, error: `Job cannot be queued while ${job.status}` };
+        }
+
+        for (const depId of dependsOn) {
+            if (depId === jobId) return { success: false, error: 'A job cannot depend on itself' };
+            if (!jobManager.getJob(depId)) return { success: false, error: `Dependency ${depId} not found` };
+        }
+        if (this.createsCycle(jobId, dependsOn)) {
+            return { success: false, error: 'Dependencies would create a cycle' };
+        }
+
+        const updated = jobManager.transitionJob(jobId, 'queued', dependsOn.length ? `Queued after ${dependsOn.join(', ')}` : 'Queued', {
+            workspace: cwd || job.workspace,
+            dependsOn,
+            queuedAt: Date.now()
+        });
+        if (!updated) return { success: false, error: `Job cannot be queued while ${job.status}` };
+
+        console.log(`[Scheduler] Queued ${jobId}${dependsOn.length ? ` (after ${dependsOn.join(', ')})` : ''}`);
+        this.notify(updated);
+        return { success: true, job: updated };
+    }
+
+    dequeue(jobId: string): { success: boolean, error?: string } {
+        const updated = jobManager.transitionJob(jobId, 'idle', 'Removed from queue');
+        if (!updated) return { success: false, error: 'Job is not queued' };
+        this.notify(updated);
+        return { success: true };
+    }
+
+    // Walks the dependency graph from the new deps; reaching jobId means a cycle
+    private createsCycle(jobId: string, dependsOn: string[]): boolean {
+        const seen = new Set<string>();
+        const stack = [...dependsOn];
+        while (stack.length) {
+            const id = stack.pop()!;
+            if (id === jobId) return true;
+            if (seen.has(id)) continue;
+            seen.add(id);
+            stack.push(...(jobManager.getJob(id)?.dependsOn || []));
+        }
+        return false;
+    }
+
+    private scheduleTick() {
+        if (this.tickScheduled) return;
+        this.tickScheduled = true;
+        setTimeout(() => {
+            this.tickScheduled = false;
+            this.tick();
+        }, 0);
+    }
+
+    // Starts every queued job whose dependencies are met and whose workspace has room
+    private tick() {
+        const jobs = jobManager.getAllJobs();
+        const active = new Map<string, number>();
+        jobs.filter(j => WORKSPACE_BUSY_STATUSES.includes(j.status) || this.starting.has(j.id)).forEach(j => {
+            const ws = slotKey(j);
+            active.set(ws, (active.get(ws) || 0) + 1);
+        });
+
+        for (const job of this.getQueue()) {
+            if (this.starting.has(job.id)) continue;
+            const deps = (job.dependsOn || []).map(id => jobManager.getJob(id));
+
+            // The job can be queued again if a cancelled dependency is restarted
+            const failedDep = job.dependsOn?.find((id, i) => !deps[i] || deps[i]!.status === 'cancelled');
+            if (failedDep) {
+                const updated = jobManager.transitionJob(job.id, 'failed', `Dependency ${failedDep} did not complete`, { logSummary: `Dependency ${failedDep} did not complete` });
+                if (updated) this.notify(updated);
+                continue;
+            }
+            if (!deps.every(d => d?.status === 'completed')) continue;
+
+            const slot = slotKey(job);
+            const limit = this.concurrency.get(slot) ?? DEFAULT_CONCURRENCY;
+            if ((active.get(slot) || 0) >= limit) continue;
+
+            const ws = job.workspace || '';
+            console.log(`[Scheduler] Starting ${job.id} in ${ws}`);
+            active.set(slot, (active.get(slot) || 0) + 1);
+            this.starting.add(job.id);
+            this.orchestrator.startJob(job.id, ws).catch(e => {
+                console.error(`[Scheduler] Failed to start ${job.id}:`, e);
+            }).finally(() => {
+                this.starting.delete(job.id);
+                this.scheduleTick();
+            });
+        }
+    }
+}
+
+export function setupScheduler(win: BrowserWindow, orchestrator: Orchestrator) {
+    return new JobScheduler(win, orchestrator);
+}
@@ -5,6 +5,13 @@ import * as os from 'os';
 
 const SECRETS_FILE = path.join(os.homedir(), '.natsuki', 'secrets.json');
 
+// Environment fallback for the headless CLI, where safeStorage doesn't exist
+const ENV_KEYS: Record<string, string> = {
+    anthropic: 'ANTHROPIC_API_KEY',
+    gemini: 'GEMINI_API_KEY',
+    openai: 'OPENAI_API_KEY'
+};
+
 interface EncryptedData {
     iv: string;
     data: string;
@@ -21,11 +28,13 @@ interface SecretsStore {
  * However, safeStorage.encryptString returns Buffer. We need to persist that buffer.
  * Storing the raw buffer in a file is fine if it's encrypted by safeStorage.
  * 
- * Note: safeStorage is only available after app 'ready'.
+ * Note: safeStorage is only available after app 'ready'. Outside Electron (CLI) it is
+ * undefined; stored keys can't be read there, so getApiKey falls back to ENV_KEYS.
  */
 export class KeyManager {
     private storePath: string;
     private memoryCache: Map<string, string> = new Map(); // Cache decrypted keys
+    private warnedUnavailable = false;
 
     constructor() {
         this.storePath = SECRETS_FILE;
@@ -61,7 +70,7 @@ export class KeyManager {
      * @param key The raw API key
      */
     async setApiKey(provider: string, key: string): Promise<boolean> {
-        if (!safeStorage.isEncryptionAvailable()) {
+        if (!safeStorage?.isEncryptionAvailable()) {
             console.error('[KeyManager] Encryption not available (safeStorage).');
             return false;
         }
@@ -94,14 +103,19 @@ export class KeyManager {
             return this.memoryCache.get(provider) || null;
         }
 
-        if (!safeStorage.isEncryptionAvailable()) {
-            console.warn('[KeyManager] Encryption not available.');
-            return null;
+        const fromEnv = process.env[ENV_KEYS[provider]] || null;
+
+        if (!safeStorage?.isEncryptionAvailable()) {
+            if (!fromEnv && !this.warnedUnavailable) {
+                console.warn('[KeyManager] Encryption not available; set keys via environment variables instead.');
+                this.warnedUnavailable = true;
+            }
+            return fromEnv;
         }
 
         const store = this.loadStore();
         if (!store[provider]) {
-            return null;
+            return fromEnv;
         }
 
         try {
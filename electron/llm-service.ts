@@ -6,7 +6,8 @@ import * as os from 'os';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { OpenAI } from 'openai';
 import { keyManager } from './key-manager';
-import { loadContract } from './snapshot-manager';
+import { loadContract, readSnapshotTranscript, VerifyStepResult } from './snapshot-manager';
+import { normalizeTerminalOutput } from './terminal-normalizer';
 
 // --- Types ---
 
@@ -20,6 +21,7 @@ export interface ReviewIssue {
     title: string;
     evidence: string;   // snapshotからの根拠（diff/log）
     suggestion: string;
+    reportedBy?: string[]; // ensemble only: providers that raised it
 }
 
 export interface ReviewResult {
@@ -37,6 +39,11 @@ export interface ReviewResult {
         correctness: RiskLevel;
         maintainability: RiskLevel;
     };
+    ensemble?: {
+        policy: string;
+        votes: { provider: string, decision?: Decision, achievedLevel?: AchievedLevel, summary?: string, error?: string }[];
+        disagreements: string[];
+    };
 }
 
 export interface ContractLevels {
@@ -51,17 +58,50 @@ export interface SnapshotData {
     manifest: any;
     diff: string;
     logs: string;
+    verify?: VerifyStepResult[]; // From verify.json (absent on older/manual snapshots)
     contract?: {
         id: string;
         levels: ContractLevels;
     };
 }
 
+// Token usage of a review run (accumulated on the runner, read by the Orchestrator for budgets)
+export interface ReviewUsage {
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+}
+
 interface ReviewerRunner {
     id: string; // 'anthropic', 'gemini', 'openai'
+    usage: ReviewUsage;
     review(snapshot: SnapshotData): Promise<ReviewResult>;
 }
 
+// USD per 1M tokens (list prices, input/output). Only used for budget tracking, so approximate is fine.
+const MODEL_PRICING: Record<string, { input: number, output: number }> = {
+    'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'gpt-4o': { input: 2.5, output: 10 },
+};
+
+function emptyUsage(): ReviewUsage {
+    return { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addUsage(usage: ReviewUsage, model: string, inputTokens: number, outputTokens: number) {
+    const price = MODEL_PRICING[model] || { input: 0, output: 0 };
+    usage.inputTokens += inputTokens;
+    usage.outputTokens += outputTokens;
+    usage.costUsd += (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+function mergeUsage(target: ReviewUsage, source: ReviewUsage) {
+    target.inputTokens += source.inputTokens;
+    target.outputTokens += source.outputTokens;
+    target.costUsd += source.costUsd;
+}
+
 // --- Common ---
 
 const REVIEWER_SYSTEM_PROMPT = `You are a Senior Code Reviewer implementing a 3-tier Capability Level judgment system.
@@ -117,10 +157,33 @@ R4: Maximum達成 → EXCELLENT
 }
 
 ## Important
+- Verify Results come from actually running lint/typecheck/build/test. A failing step is hard evidence: cite it, and do not claim a level whose requirements it contradicts
 - NEVER block based on "preferences" or "general best practices" alone
 - ALWAYS cite evidence from the snapshot
 - Evaluate ONLY against the contract's defined levels`;
 
+function buildVerifySection(verify?: VerifyStepResult[]): string {
+    if (!verify || verify.length === 0) {
+        return 'Verify Results: Not run for this snapshot';
+    }
+
+    const steps = verify.map(v => {
+        if (v.skipped) return `### ${v.profile}: SKIPPED (an earlier step failed)`;
+        const header = `### ${v.profile}: ${v.success ? 'PASS' : 'FAIL'} (exit ${v.exitCode}, ${(v.durationMs / 1000).toFixed(1)}s)`;
+        if (v.success) return header;
+        // Only failing steps need their output; keep the tails short
+        const output = [v.stderrTail.slice(-1500).trim(), v.stdoutTail.slice(-1500).trim()].filter(Boolean).join('\n---\n');
+        return `${header}\n\`\`\`\n${output || v.error || '(no output)'}\n\`\`\``;
+    });
+
+    return `Verify Results:\n${steps.join('\n\n')}`;
+}
+
+// The transcript is the agent's whole turn now, so it gets more room than the old 50-line tail
+const MAX_PROMPT_LOG_CHARS = 12000;
+// Raw output rendered for the prompt; only its end is used, so don't emulate megabytes of it
+const MAX_TRANSCRIPT_RAW_CHARS = 1024 * 1024;
+
 function buildUserPrompt(snapshot: SnapshotData): string {
     const contractSection = snapshot.contract ? `
 Contract ID: ${snapshot.contract.id}
@@ -141,16 +204,19 @@ Contract: Not provided (use general code quality standards)
 Manifest:
 ${JSON.stringify(snapshot.manifest, null, 2)}
 
+${buildVerifySection(snapshot.verify)}
+
 Git Diff:
 \`\`\`diff
 ${snapshot.diff.slice(0, 15000)}
 \`\`\`
 ${snapshot.diff.length > 15000 ? '(Truncated: original was ' + snapshot.diff.length + ' chars)' : ''}
 
-Recent Logs:
+Agent Transcript (since the previous snapshot):
 \`\`\`
-${snapshot.logs.slice(-3000)}
+${snapshot.logs.slice(-MAX_PROMPT_LOG_CHARS)}
 \`\`\`
+${snapshot.logs.length > MAX_PROMPT_LOG_CHARS ? '(Truncated: showing the last ' + MAX_PROMPT_LOG_CHARS + ' of ' + snapshot.logs.length + ' chars)' : ''}
 
 Evaluate this snapshot against the capability levels. Return JSON only.`;
 }
@@ -191,6 +257,8 @@ function parseJsonResult(text: string): ReviewResult {
 
 class AnthropicReviewer implements ReviewerRunner {
     id = 'anthropic';
+    usage = emptyUsage();
+    private model = 'claude-3-5-sonnet-latest';
     private apiKey: string | null = null;
 
     setApiKey(key: string) {
@@ -207,7 +275,7 @@ class AnthropicReviewer implements ReviewerRunner {
 
         return new Promise((resolve, reject) => {
             const data = JSON.stringify({
-                model: "claude-3-5-sonnet-latest",
+                model: this.model,
                 max_tokens: 1000,
                 system: REVIEWER_SYSTEM_PROMPT,
                 messages: [{ role: "user", content: prompt }]
@@ -232,6 +300,7 @@ class AnthropicReviewer implements ReviewerRunner {
                         try {
                             const parsed = JSON.parse(body);
                             const text = parsed.content[0].text;
+                            addUsage(this.usage, this.model, parsed.usage?.input_tokens || 0, parsed.usage?.output_tokens || 0);
                             resolve(parseJsonResult(text));
                         } catch (e) { reject(e); }
                     } else {
@@ -248,18 +317,22 @@ class AnthropicReviewer implements ReviewerRunner {
 
 class GeminiReviewer implements ReviewerRunner {
     id = 'gemini';
+    usage = emptyUsage();
+    private model = 'gemini-1.5-flash'; // Tier 1 model
 
     async review(snapshot: SnapshotData): Promise<ReviewResult> {
         const apiKey = keyManager.getApiKey('gemini');
         if (!apiKey) throw new Error("Gemini API Key not found");
 
         const genAI = new GoogleGenerativeAI(apiKey);
-        const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" }); // Tier 1 model
+        const model = genAI.getGenerativeModel({ model: this.model });
 
         const prompt = REVIEWER_SYSTEM_PROMPT + "\n\n" + buildUserPrompt(snapshot);
 
         const result = await model.generateContent(prompt);
         const text = result.response.text();
+        const meta = result.response.usageMetadata;
+        addUsage(this.usage, this.model, meta?.promptTokenCount || 0, meta?.candidatesTokenCount || 0);
 
         return parseJsonResult(text);
     }
@@ -267,6 +340,8 @@ class GeminiReviewer implements ReviewerRunner {
 
 class OpenAIReviewer implements ReviewerRunner {
     id = 'openai';
+    usage = emptyUsage();
+    private model = 'gpt-4o';
 
     async review(snapshot: SnapshotData): Promise<ReviewResult> {
         const apiKey = keyManager.getApiKey('openai');
@@ -278,23 +353,34 @@ class OpenAIReviewer implements ReviewerRunner {
                 { role: 'system', content: REVIEWER_SYSTEM_PROMPT },
                 { role: 'user', content: buildUserPrompt(snapshot) }
             ],
-            model: 'gpt-4o',
+            model: this.model,
             response_format: { type: "json_object" }
         });
 
         const text = completion.choices[0].message.content || "{}";
+        addUsage(this.usage, this.model, completion.usage?.prompt_tokens || 0, completion.usage?.completion_tokens || 0);
         return parseJsonResult(text);
     }
 }
 
 class TieredReviewer implements ReviewerRunner {
     id = 'tiered';
+    usage = emptyUsage();
+
+    // Tier usage is merged even when a tier throws (the tokens were still spent)
+    private async runTier(runner: ReviewerRunner, snapshot: SnapshotData): Promise<ReviewResult> {
+        try {
+            return await runner.review(snapshot);
+        } finally {
+            mergeUsage(this.usage, runner.usage);
+        }
+    }
 
     async review(snapshot: SnapshotData): Promise<ReviewResult> {
         console.log("[Tiered] Starting Tier 1 (Gemini Flash)...");
         try {
             const tier1 = new GeminiReviewer();
-            const result1 = await tier1.review(snapshot);
+            const result1 = await this.runTier(tier1, snapshot);
 
             if (result1.decision === 'APPROVE' || result1.decision === 'EXCELLENT') {
                 console.log("[Tiered] Tier 1 Approved. Skipping Tier 2.");
@@ -306,7 +392,7 @@ class TieredReviewer implements ReviewerRunner {
 
             console.log(`[Tiered] Tier 1 decision was '${result1.decision}'. Escalating to Tier 2 (Anthropic)...`);
             const tier2 = new AnthropicReviewer();
-            const result2 = await tier2.review(snapshot);
+            const result2 = await this.runTier(tier2, snapshot);
 
             return {
                 ...result2,
@@ -316,18 +402,249 @@ class TieredReviewer implements ReviewerRunner {
         } catch (e) {
             console.error("[Tiered] Tier 1 failed, falling back to Tier 2 immediately.", e);
             const tier2 = new AnthropicReviewer();
-            return await tier2.review(snapshot);
+            return await this.runTier(tier2, snapshot);
         }
     }
 }
 
+// --- Ensemble ---
+
+export type EnsemblePolicy = 'strictest' | 'majority' | 'weighted';
+
+export interface EnsembleConfig {
+    providers: string[]; // single-model reviewers to run side by side
+    policy: EnsemblePolicy;
+    weights?: Record<string, number>; // 'weighted' only, default 1 per provider
+}
+
+const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = {
+    providers: ['anthropic', 'gemini', 'openai'],
+    policy: 'strictest'
+};
+
+let ensembleConfig: EnsembleConfig = DEFAULT_ENSEMBLE_CONFIG;
+
+export function setEnsembleConfig(config: Partial<EnsembleConfig>) {
+    const providers = (config.providers || ensembleConfig.providers)
+        .filter(p => p !== 'ensemble' && p !== 'tiered' && reviewers[p]);
+    ensembleConfig = {
+        providers: providers.length ? providers : DEFAULT_ENSEMBLE_CONFIG.providers,
+        policy: config.policy || ensembleConfig.policy,
+        weights: config.weights ?? ensembleConfig.weights
+    };
+    console.log(`[LLM] Ensemble set to ${ensembleConfig.providers.join(', ')} (${ensembleConfig.policy})`);
+}
+
+// Strictest first; index doubles as the rank used for voting
+const DECISION_RANK: Decision[] = ['BLOCK', 'IMPROVE', 'APPROVE', 'EXCELLENT'];
+const LEVEL_RANK: AchievedLevel[] = ['none', 'minimum', 'middle', 'maximum'];
+const RISK_RANK: RiskLevel[] = ['low', 'medium', 'high'];
+const SEVERITY_RANK: Severity[] = ['minor', 'major', 'critical'];
+
+// What a decision implies when the winning voters' levels don't help
+const DECISION_LEVEL: Record<Decision, AchievedLevel> = {
+    BLOCK: 'none',
+    IMPROVE: 'minimum',
+    APPROVE: 'middle',
+    EXCELLENT: 'maximum'
+};
+
+// An ensemble with a single surviving reviewer is just that reviewer; don't let it approve alone
+const MIN_APPROVE_QUORUM = 2;
+
+function tokenSet(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(t => t.length > 1));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    if (!a.size && !b.size) return 1;
+    let shared = 0;
+    a.forEach(t => { if (b.has(t)) shared++; });
+    return shared / (a.size + b.size - shared);
+}
+
+// Same finding reported in other words: near-identical titles, or related titles over the same evidence
+function isSameIssue(a: ReviewIssue, b: ReviewIssue): boolean {
+    const titles = jaccard(tokenSet(a.title), tokenSet(b.title));
+    if (titles >= 0.6) return true;
+    return titles >= 0.3 && !!a.evidence && !!b.evidence && jaccard(tokenSet(a.evidence), tokenSet(b.evidence)) >= 0.6;
+}
+
+type EnsembleVote = NonNullable<ReviewResult['ensemble']>['votes'][number];
+
+class EnsembleReviewer implements ReviewerRunner {
+    id = 'ensemble';
+    usage = emptyUsage();
+    private config = ensembleConfig;
+    private apiKey?: string;
+
+    // Passed on to the Anthropic member, like runReview does for a single reviewer
+    setApiKey(key: string) {
+        this.apiKey = key;
+    }
+
+    async review(snapshot: SnapshotData): Promise<ReviewResult> {
+        const { providers, policy } = this.config;
+        console.log(`[Ensemble] Running ${providers.join(', ')} in parallel (${policy})...`);
+
+        const runs = await Promise.allSettled(providers.map(async provider => {
+            const runner = new reviewers[provider]();
+            if (this.apiKey && runner instanceof AnthropicReviewer) runner.setApiKey(this.apiKey);
+            try {
+                return await runner.review(snapshot);
+            } finally {
+                mergeUsage(this.usage, runner.usage);
+            }
+        }));
+
+        const votes: EnsembleVote[] = [];
+        const results: { provider: string, result: ReviewResult }[] = [];
+        runs.forEach((run, i) => {
+            const provider = providers[i];
+            if (run.status === 'fulfilled') {
+                results.push({ provider, result: run.value });
+                votes.push({ provider, decision: run.value.decision, achievedLevel: run.value.achievedLevel, summary: run.value.summary });
+            } else {
+                const error = run.reason instanceof Error ? run.reason.message : String(run.reason);
+                console.warn(`[Ensemble] ${provider} failed:`, error);
+                votes.push({ provider, error });
+            }
+        });
+
+        if (!results.length) {
+            throw new Error(`All ensemble reviewers failed: ${votes.map(v => `${v.provider}: ${v.error}`).join('; ')}`);
+        }
+
+        return this.merge(results, votes);
+    }
+
+    private pickDecision(results: { provider: string, result: ReviewResult }[]): Decision {
+        const ranks = results.map(r => DECISION_RANK.indexOf(r.result.decision));
+
+        if (this.config.policy === 'majority') {
+            const counts = DECISION_RANK.map((_, rank) => ranks.filter(r => r === rank).length);
+            const top = Math.max(...counts);
+            return DECISION_RANK[counts.indexOf(top)]; // ties go to the stricter decision
+        }
+
+        if (this.config.policy === 'weighted') {
+            const weightOf = (p: string) => Math.max(0, this.config.weights?.[p] ?? 1);
+            const total = results.reduce((sum, r) => sum + weightOf(r.provider), 0);
+            if (total > 0) {
+                const score = results.reduce((sum, r, i) => sum + ranks[i] * weightOf(r.provider), 0) / total;
+                return DECISION_RANK[Math.floor(score)]; // round down: half an APPROVE is an IMPROVE
+            }
+        }
+
+        return DECISION_RANK[Math.min(...ranks)];
+    }
+
+    private merge(results: { provider: string, result: ReviewResult }[], votes: EnsembleVote[]): ReviewResult {
+        const { policy } = this.config;
+        let decision = this.pickDecision(results);
+
+        // Level comes from the reviewers that agree with the outcome, conservatively
+        const agreeing = results.filter(r => r.result.decision === decision);
+        let achievedLevel = agreeing.length
+            ? LEVEL_RANK[Math.min(...agreeing.map(r => LEVEL_RANK.indexOf(r.result.achievedLevel)))]
+            : DECISION_LEVEL[decision];
+
+        const issues = this.mergeIssues(results);
+
+        const quorum = Math.min(MIN_APPROVE_QUORUM, this.config.providers.length);
+        if (results.length < quorum && DECISION_RANK.indexOf(decision) >= DECISION_RANK.indexOf('APPROVE')) {
+            const failed = votes.filter(v => v.error).map(v => v.provider);
+            decision = 'IMPROVE';
+            achievedLevel = DECISION_LEVEL.IMPROVE;
+            issues.unshift({
+                severity: 'major',
+                title: 'Ensemble quorum not reached',
+                evidence: `Only ${results.map(r => r.provider).join(', ')} returned a review; ${failed.join(', ')} failed`,
+                suggestion: 'Re-run the review once the other reviewers are reachable, or approve manually'
+            });
+        }
+
+        const union = (level: keyof ReviewResult['missing']) =>
+            [...new Set(results.flatMap(r => r.result.missing?.[level] || []))];
+        const maxRisk = (dim: keyof ReviewResult['risk']) =>
+            RISK_RANK[Math.max(...results.map(r => RISK_RANK.indexOf(r.result.risk?.[dim] || 'low')))];
+
+        const tally = DECISION_RANK
+            .map(d => [d, votes.filter(v => v.decision === d).length] as const)
+            .filter(([, n]) => n > 0)
+            .map(([d, n]) => `${d} ${n}`);
+        const failedCount = votes.filter(v => v.error).length;
+        if (failedCount) tally.push(`failed ${failedCount}`);
+
+        const summaries = results.map(r => `${r.provider}: ${r.result.summary}`).join('\n');
+
+        return {
+            decision,
+            achievedLevel,
+            summary: `[Ensemble ${policy}: ${tally.join(', ')}]\n${summaries}`,
+            missing: { minimum: union('minimum'), middle: union('middle'), maximum: union('maximum') },
+            issues,
+            risk: { security: maxRisk('security'), correctness: maxRisk('correctness'), maintainability: maxRisk('maintainability') },
+            ensemble: { policy, votes, disagreements: this.findDisagreements(results) }
+        };
+    }
+
+    // Issues from all reviewers, with near-duplicates folded into one at the highest severity
+    private mergeIssues(results: { provider: string, result: ReviewResult }[]): ReviewIssue[] {
+        const merged: ReviewIssue[] = [];
+        results.forEach(({ provider, result }) => {
+            (result.issues || []).forEach(issue => {
+                const existing = merged.find(m => isSameIssue(m, issue));
+                if (!existing) {
+                    merged.push({ ...issue, reportedBy: [provider] });
+                    return;
+                }
+                if (!existing.reportedBy!.includes(provider)) existing.reportedBy!.push(provider);
+                if (SEVERITY_RANK.indexOf(issue.severity) > SEVERITY_RANK.indexOf(existing.severity)) {
+                    existing.severity = issue.severity;
+                }
+                if (issue.evidence.length > existing.evidence.length) existing.evidence = issue.evidence;
+                if (!existing.suggestion && issue.suggestion) existing.suggestion = issue.suggestion;
+            });
+        });
+        return merged.sort((a, b) => SEVERITY_RANK.indexOf(b.severity) - SEVERITY_RANK.indexOf(a.severity));
+    }
+
+    private findDisagreements(results: { provider: string, result: ReviewResult }[]): string[] {
+        if (results.length < 2) return [];
+        const out: string[] = [];
+        const describe = (pick: (r: ReviewResult) => string) =>
+            results.map(r => `${r.provider} ${pick(r.result)}`).join(', ');
+
+        if (new Set(results.map(r => r.result.decision)).size > 1) {
+            out.push(`Decision: ${describe(r => r.decision)}`);
+        }
+        if (new Set(results.map(r => r.result.achievedLevel)).size > 1) {
+            out.push(`Achieved level: ${describe(r => r.achievedLevel)}`);
+        }
+        (['security', 'correctness', 'maintainability'] as const).forEach(dim => {
+            if (new Set(results.map(r => r.result.risk?.[dim])).size > 1) {
+                out.push(`${dim[0].toUpperCase()}${dim.slice(1)} risk: ${describe(r => r.risk?.[dim])}`);
+            }
+        });
+
+        // Critical findings that only part of the ensemble saw are the ones worth a human look
+        this.mergeIssues(results)
+            .filter(i => i.severity === 'critical' && i.reportedBy!.length < results.length)
+            .forEach(i => out.push(`Critical issue only from ${i.reportedBy!.join(', ')}: ${i.title}`));
+
+        return out;
+    }
+}
+
 // --- Factory ---
 
 const reviewers: Record<string, new () => ReviewerRunner> = {
     'anthropic': AnthropicReviewer,
     'gemini': GeminiReviewer,
     'openai': OpenAIReviewer,
-    'tiered': TieredReviewer
+    'tiered': TieredReviewer,
+    'ensemble': EnsembleReviewer
 };
 
 async function loadSnapshot(jobId: string, snapshotId: string): Promise<SnapshotData> {
@@ -342,6 +659,27 @@ async function loadSnapshot(jobId: string, snapshotId: string): Promise<Snapshot
         throw new Error("Snapshot files not found: " + snapshotDir);
     }
 
+    // Verify results are optional (only written when the pipeline ran verify)
+    let verify: VerifyStepResult[] | undefined;
+    const verifyPath = path.join(snapshotDir, 'verify.json');
+    if (fs.existsSync(verifyPath)) {
+        try {
+            verify = JSON.parse(await fs.promises.readFile(verifyPath, 'utf-8'));
+        } catch (e) {
+            console.warn(`[Review] Failed to read verify.json for ${snapshotId}:`, e);
+        }
+    }
+
+    // Prefer the full transcript since the previous snapshot over the 50-line tail, rendered as the terminal showed it
+    try {
+        const transcript = await readSnapshotTranscript(jobId, snapshotId);
+        if (transcript.text.trim()) {
+            logContent = await normalizeTerminalOutput(transcript.text.slice(-MAX_TRANSCRIPT_RAW_CHARS), transcript.range?.cols, transcript.range?.rows);
+        }
+    } catch (e) {
+        console.warn(`[Review] No transcript for ${snapshotId}, using the terminal tail:`, e);
+    }
+
     // Load contract if available
     const contract = await loadContract(jobId);
 
@@ -351,6 +689,7 @@ async function loadSnapshot(jobId: string, snapshotId: string): Promise<Snapshot
         manifest: JSON.parse(manifestStr),
         diff: diffContent,
         logs: logContent,
+        verify,
         contract: contract ? { id: contract.id, levels: contract.levels } : undefined
     };
 }
@@ -365,7 +704,8 @@ export function setReviewerProvider(provider: string) {
     }
 }
 
-export async function runReview(jobId: string, snapshotId: string, apiKey?: string): Promise<{ success: boolean, result?: ReviewResult, error?: string }> {
+export async function runReview(jobId: string, snapshotId: string, apiKey?: string, provider: string = defaultProvider): Promise<{ success: boolean, result?: ReviewResult, usage?: ReviewUsage, error?: string }> {
+    let runner: ReviewerRunner | undefined;
     try {
         const snapshot = await loadSnapshot(jobId, snapshotId);
 
@@ -392,16 +732,14 @@ export async function runReview(jobId: string, snapshotId: string, apiKey?: stri
             };
         }
 
-        // Simple strategy for now: Use default provider
-        // TODO: Implement Tiered Logic (Gemini Flash -> Anthropic) here if requested
-        // For Phase 3.0, we just support switching.
+        // The job's own reviewer (template jobs) or the global default
 
-        const ProviderClass = reviewers[defaultProvider];
+        const ProviderClass = reviewers[provider];
         if (!ProviderClass) {
-            return { success: false, error: `Provider ${defaultProvider} not initialized` };
+            return { success: false, error: `Provider ${provider} not initialized` };
         }
 
-        const runner = new ProviderClass();
+        runner = new ProviderClass();
 
         // If apiKey is passed directly, use it (from frontend localStorage)
         if (apiKey && 'setApiKey' in runner) {
@@ -411,11 +749,12 @@ export async function runReview(jobId: string, snapshotId: string, apiKey?: stri
         console.log(`[Review] Starting review with ${runner.id} for ${snapshotId}`);
         const result = await runner.review(snapshot);
 
-        return { success: true, result };
+        return { success: true, result, usage: runner.usage };
 
     } catch (e: any) {
         console.error("LLM Review Error:", e);
-        return { success: false, error: e.message };
+        // A failed call may still have billed tokens (e.g. unparseable output)
+        return { success: false, error: e.message, usage: runner?.usage };
     }
 }
 
@@ -428,5 +767,10 @@ export function setupLLMHandlers(win: BrowserWindow) {
         setReviewerProvider(provider);
         return true;
     });
+
+    ipcMain.handle('set-ensemble-config', (_event, config: Partial<EnsembleConfig>) => {
+        setEnsembleConfig(config);
+        return ensembleConfig;
+    });
 }
 
@@ -5,10 +5,15 @@ import { setupPty } from './pty-manager'
 import { setupGitHandlers } from './git-service'
 import { setupSnapshotHandlers } from './snapshot-manager'
 import { setupOrchestrator } from './orchestrator'
+import { setupScheduler } from './job-scheduler'
 import { setupLLMHandlers } from './llm-service'
 import { setupResearchHandlers } from './research-service'
+import { setupAgentHandlers } from './agent-adapter'
+import { setupApiServer } from './api-server'
+import { setupTemplateHandlers } from './template-manager'
+import { setupCastHandlers } from './cast-recorder'
 import { keyManager } from './key-manager'
-import { jobManager } from './job-manager' // Initializes JobManager & IPC
+import { setupJobHandlers } from './job-manager'
 
 // Disable GPU acceleration to avoid cache permission issues
 app.disableHardwareAcceleration()
@@ -65,14 +70,18 @@ app.whenReady().then(() => {
 
     createWindow()
     setupGitHandlers()
+    setupAgentHandlers()
+    setupTemplateHandlers()
+    setupCastHandlers()
 
-    // Ensure JobManager IPC handlers are registered
-    console.log(`[Main] JobManager initialized with ${jobManager ? 'success' : 'failure'}`);
+    setupJobHandlers()
 
     if (win) {
         setupPty(win)
         setupSnapshotHandlers(win)
-        setupOrchestrator(win)
+        const orchestrator = setupOrchestrator(win)
+        setupScheduler(win, orchestrator)
+        setupApiServer(orchestrator)
         setupLLMHandlers(win)
         setupResearchHandlers()
 
@@ -1,75 +1,200 @@
 import { BrowserWindow, ipcMain } from 'electron';
-import { runVerify, createSnapshot } from './snapshot-manager';
+import * as fs from 'fs';
+import { runVerify, createSnapshot, getSnapshotDir, skippedStep, DEFAULT_VERIFY_STEPS, VerifyStepResult } from './snapshot-manager';
 import { runReview } from './llm-service';
 import { sendToPty, setIdleCallback, builder, ptyManager } from './pty-manager';
 import { ReviewResult } from './llm-service';
 import { keyManager } from './key-manager';
-import { jobManager, Job, JobStatus } from './job-manager';
+import { logEvent } from './log-service';
+import { getAgentAdapter, AgentAdapter } from './agent-adapter';
+import { runHooks, HookName } from './hook-runner';
+import { startJobRecording, stopJobRecording, markJobRecording } from './cast-recorder';
+import { PromptResponder, DetectedPrompt, loadPromptPolicy, decidePrompt } from './prompt-responder';
+import { createJobWorktree, commitChanges, mergeJobWorktree, removeJobWorktree, captureBaseline, rollbackToBaseline, getChangedSinceBaseline, WorkspaceBaseline } from './git-service';
+import { jobManager, Job, JobStatus, JobAction, JobBudget, JobUsage, BudgetKind, DEFAULT_JOB_BUDGET } from './job-manager';
 
 // Runtime tracking for active jobs (things not in DB like PTY handles, timeouts)
 interface JobRuntime {
     jobId: string;
-    // Add runtime specific stuff here if needed
+    sessionId: string; // PTY session owned by this job (one job per session)
 }
 
 const activeRuntimes: Map<string, JobRuntime> = new Map();
 
+// Jobs between the start checks and their runtime, so a second start (e.g. a scheduler tick) is refused.
+// Maps to the session the start asked for, which mustn't be cleaned up underneath it.
+const startingJobs: Map<string, string | undefined> = new Map();
+
+// Background sessions resolveSession created; killed once no job drives them anymore
+const spawnedSessions: Set<string> = new Set();
+
+// In-flight verify/snapshot/review runs, so pause/cancel can abort child processes
+const activePipelines: Map<string, AbortController> = new Map();
+
+// Permission prompt watchers of jobs with a runtime (see prompt-responder.ts)
+const promptResponders: Map<string, PromptResponder> = new Map();
+
+// Runtime budget clocks: running while the job is in an active status, fires when maxRuntimeMs is used up
+const budgetClocks: Map<string, { since: number, timer?: NodeJS.Timeout }> = new Map();
+
+// Pipeline phases after the agent's turn (runPipeline can start from any of them)
+type PipelinePhase = 'verify' | 'snapshot' | 'review';
+
+// Statuses that consume runtime budget (the loop is doing work, not waiting on the user)
+const BUDGET_CLOCK_STATUSES: JobStatus[] = ['running', 'fixing', 'verifying', 'snapshotting', 'reviewing'];
+
+// When to roll a job's edits back to its baseline automatically
+export type RollbackMode = 'off' | 'block' | 'failed';
+
+// Opt-in behaviours, set from the UI (IPC) or from CLI flags
+export interface OrchestratorSettings {
+    // BLOCK creates a fix job and starts it in the parent's session
+    fixChain: { autoStart: boolean, maxDepth: number };
+    // Commit a job's changes when it is approved, so the next job diffs from a clean baseline
+    autoCommit: boolean;
+    // Undo a job's edits when the reviewer blocks it ('block') or it fails for any reason ('failed')
+    rollbackMode: RollbackMode;
+}
+
+// Where job updates go: the renderer in the desktop app, the terminal in the CLI
+export interface OrchestratorHost {
+    send(channel: string, payload: unknown): void;
+}
+
 // Configuration
-const MAX_AUTO_FIXES = 2;
+const DEFAULT_FIX_CHAIN_DEPTH = 3;
 const MAX_DIFF_LINES = 1000;
+const MAX_PROMPT_ANSWERS_PER_MINUTE = 10;
+const SESSION_LINGER_MS = 30000;
 const TIMEOUTS = {
     VERIFY: 10 * 60 * 1000,
     SNAPSHOT: 5 * 60 * 1000,
     REVIEW: 3 * 60 * 1000
 };
 
-function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+// On timeout the controller (if given) is aborted too, so the underlying work is stopped, not just abandoned
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string, controller?: AbortController): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
     return Promise.race([
         promise,
-        new Promise<T>((_, reject) => setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms))
-    ]);
+        new Promise<T>((_, reject) => {
+            timer = setTimeout(() => {
+                controller?.abort();
+                reject(new Error(`${label} timed out after ${ms}ms`));
+            }, ms);
+        })
+    ]).finally(() => clearTimeout(timer));
 }
 
 export class Orchestrator {
-    private mainWindow: BrowserWindow;
+    private host: OrchestratorHost;
+    private settings: OrchestratorSettings = {
+        fixChain: { autoStart: false, maxDepth: DEFAULT_FIX_CHAIN_DEPTH },
+        autoCommit: false,
+        rollbackMode: 'off'
+    };
+    // Notify-only hooks (on-fail) nobody awaits; the CLI waits for them before exiting
+    private pendingHooks: Set<Promise<unknown>> = new Set();
 
-    constructor(win: BrowserWindow) {
-        this.mainWindow = win;
-        this.setupIPC();
+    // recoverInterrupted: off for the CLI, whose process doesn't own jobs other processes are running
+    constructor(host: OrchestratorHost, { recoverInterrupted = true }: { recoverInterrupted?: boolean } = {}) {
+        this.host = host;
         this.setupPTYListeners();
+        if (recoverInterrupted) this.recoverInterruptedJobs();
+    }
+
+    // Jobs that were mid-run when the app quit/crashed: mark them and work out where resume should pick up
+    private async recoverInterruptedJobs() {
+        const jobs = await jobManager.markInterruptedJobs();
+        jobs.forEach(job => {
+            const resumePhase = this.getResumePhase(job);
+            // The clock segment from before the crash is lost; only folded runtime survives
+            const usage = job.usage ? { ...job.usage, runningSince: undefined } : undefined;
+            const updated = jobManager.updateJob(job.id, { resumePhase, usage });
+            console.log(`[Orchestrator] Job ${job.id} interrupted while ${job.interruptedFrom}; resume from ${resumePhase}`);
+            if (updated) this.host.send('job-update', updated);
+        });
+    }
+
+    // Skip phases that already produced their artifact (e.g. a snapshot that was being reviewed)
+    private getResumePhase(job: Job): PipelinePhase {
+        switch (job.interruptedFrom) {
+            case 'reviewing':
+                return job.latestSnapshotId ? 'review' : 'snapshot';
+            case 'snapshotting':
+                return 'snapshot';
+            default:
+                // running/fixing/verifying: the agent's edits are on disk, check them from the start
+                return 'verify';
+        }
     }
 
     private setupPTYListeners() {
         // Listen to global builder events from pty-manager
-        builder.on('exit', (info: { exitCode: number, signal?: number }) => {
-            console.log(`[Orchestrator] PTY exited: ${info.exitCode}`);
+        builder.on('exit', (info: { sessionId: string, exitCode: number, signal?: number }) => {
+            console.log(`[Orchestrator] PTY ${info.sessionId} exited: ${info.exitCode}`);
             this.handlePTYExit(info);
         });
     }
 
-    private handlePTYExit(info: { exitCode: number, signal?: number }) {
-        // Check all active runtimes
+    private handlePTYExit(info: { sessionId: string, exitCode: number, signal?: number }) {
+        spawnedSessions.delete(info.sessionId);
+        // Only jobs bound to the exited session are affected
         activeRuntimes.forEach((runtime, jobId) => {
+            if (runtime.sessionId !== info.sessionId) return;
+            activeRuntimes.delete(jobId);
+            ptyManager.setOwner(runtime.sessionId, null);
+            this.stopWatchingPrompts(jobId);
+
             const job = jobManager.getJob(jobId);
-            if (job && (job.status === 'running' || job.status === 'fixing')) {
+            if (job && (job.status === 'running' || job.status === 'fixing' || job.status === 'paused')) {
                 console.warn(`[Orchestrator] Job ${jobId} was ${job.status} but PTY exited.`);
                 if (info.exitCode !== 0) {
-                    this.updateJobStatus(jobId, 'failed', { description: `Process exited with code ${info.exitCode}` });
+                    this.failJob(jobId, `Process exited with code ${info.exitCode}`);
                 } else {
                     // Start next phase if it exited cleanly? 
                     // Usually 'running' expects meaningful work. If it exits 0 immediately, maybe it's done?
                     // For now, let's treat unexpected exit as idle/paused or failed if code != 0.
                     // If we assume claudecode runs interactively, exit 0 means user quit?
-                    this.updateJobStatus(jobId, 'failed', { description: `Process exited (Code ${info.exitCode})` });
+                    this.failJob(jobId, `Process exited (Code ${info.exitCode})`);
                 }
             }
         });
-        activeRuntimes.clear();
     }
 
-    private setupIPC() {
-        ipcMain.handle('orchestrator-start', async (_, { jobId, cwd }: { jobId: string, cwd: string }) => {
-            return this.startJob(jobId, cwd);
+    // For jobs created outside the Orchestrator (e.g. through the local API) so the UI hears about them
+    publish(job: Job) {
+        this.host.send('job-update', job);
+    }
+
+    getSettings(): OrchestratorSettings {
+        return this.settings;
+    }
+
+    // Invalid values fall back to the defaults rather than being rejected
+    configure(patch: Partial<OrchestratorSettings>): OrchestratorSettings {
+        if (patch.fixChain) {
+            const { autoStart, maxDepth } = patch.fixChain;
+            this.settings.fixChain = {
+                autoStart,
+                maxDepth: Number.isInteger(maxDepth) && maxDepth >= 1 ? maxDepth : DEFAULT_FIX_CHAIN_DEPTH
+            };
+            console.log(`[Orchestrator] Fix chain: autoStart=${autoStart}, maxDepth=${this.settings.fixChain.maxDepth}`);
+        }
+        if (patch.autoCommit !== undefined) {
+            this.settings.autoCommit = patch.autoCommit;
+            console.log(`[Orchestrator] Auto-commit: ${patch.autoCommit}`);
+        }
+        if (patch.rollbackMode !== undefined) {
+            this.settings.rollbackMode = ['off', 'block', 'failed'].includes(patch.rollbackMode) ? patch.rollbackMode : 'off';
+            console.log(`[Orchestrator] Auto-rollback: ${this.settings.rollbackMode}`);
+        }
+        return this.settings;
+    }
+
+    setupIPC() {
+        ipcMain.handle('orchestrator-start', async (_, { jobId, cwd, sessionId }: { jobId: string, cwd: string, sessionId?: string }) => {
+            return this.startJob(jobId, cwd, sessionId);
         });
 
         ipcMain.handle('orchestrator-step', async (_, { jobId }: { jobId: string }) => {
@@ -79,18 +204,347 @@ export class Orchestrator {
         ipcMain.handle('orchestrator-proceed', async (_, { jobId, action }: { jobId: string, action: 'approve' | 'fix' | 'retry' }) => {
             return this.handleUserAction(jobId, action);
         });
+
+        ipcMain.handle('orchestrator-pause', async (_, { jobId }: { jobId: string }) => {
+            return this.pauseJob(jobId);
+        });
+
+        ipcMain.handle('orchestrator-resume', async (_, { jobId }: { jobId: string }) => {
+            return this.resumeJob(jobId);
+        });
+
+        ipcMain.handle('orchestrator-cancel', async (_, { jobId, reason }: { jobId: string, reason?: string }) => {
+            return this.cancelJob(jobId, reason);
+        });
+
+        // Create Fix Job (Workflow P0); started right away when fix chaining is on
+        ipcMain.handle('job-create-from-review', async (_, { jobId, reviewResult }: { jobId: string, reviewResult: ReviewResult }) => {
+            if (!jobManager.getJob(jobId)) return { success: false, error: 'Job not found' };
+            return { success: true, ...(await this.createFixJob(jobId, reviewResult)) };
+        });
+
+        ipcMain.handle('job-worktree-merge', async (_, { jobId, mode }: { jobId: string, mode: 'merge' | 'cherry-pick' }) => {
+            return this.mergeWorktree(jobId, mode);
+        });
+
+        ipcMain.handle('job-worktree-remove', async (_, { jobId, deleteBranch }: { jobId: string, deleteBranch?: boolean }) => {
+            return this.removeWorktree(jobId, !!deleteBranch);
+        });
+
+        ipcMain.handle('orchestrator-set-fix-chain', (_, { autoStart, maxDepth }: { autoStart: boolean, maxDepth?: number }) => {
+            return this.configure({ fixChain: { autoStart, maxDepth: maxDepth ?? DEFAULT_FIX_CHAIN_DEPTH } }).fixChain;
+        });
+
+        ipcMain.handle('job-rollback', async (_, { jobId }: { jobId: string }) => {
+            return this.rollbackJob(jobId);
+        });
+
+        ipcMain.handle('orchestrator-set-rollback-mode', (_, { mode }: { mode: RollbackMode }) => {
+            return { mode: this.configure({ rollbackMode: mode }).rollbackMode };
+        });
+
+        ipcMain.handle('orchestrator-set-auto-commit', (_, { enabled }: { enabled: boolean }) => {
+            return { enabled: this.configure({ autoCommit: enabled }).autoCommit };
+        });
     }
 
-    private updateJobStatus(jobId: string, status: JobStatus, updates: Partial<Job> = {}) {
+    // Returns false if the state machine rejected the move (caller should stop driving the job)
+    private updateJobStatus(jobId: string, status: JobStatus, updates: Partial<Job> = {}, reason?: string): boolean {
         // Update via JobManager
-        const job = jobManager.updateJob(jobId, { status, ...updates });
-        if (job) {
-            this.mainWindow.webContents.send('job-update', job);
-            console.log(`[Orchestrator] Job ${jobId} -> ${status}`);
+        const job = jobManager.transitionJob(jobId, status, reason, updates);
+        if (!job) return false;
+
+        this.syncBudgetClock(job);
+        this.host.send('job-update', job);
+        console.log(`[Orchestrator] Job ${jobId} -> ${status}`);
+        if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+            this.releaseRuntime(jobId);
+        }
+        return true;
+    }
+
+    // --- Budget ---
+
+    private getBudget(job: Job): JobBudget {
+        return job.budget || DEFAULT_JOB_BUDGET;
+    }
+
+    private getUsage(job: Job): JobUsage {
+        return job.usage || { runtimeMs: 0, reviewTokens: 0, reviewCostUsd: 0 };
+    }
+
+    // Starts the runtime clock when the job enters an active status and stops (folds) it when it leaves one
+    private syncBudgetClock(job: Job) {
+        const active = BUDGET_CLOCK_STATUSES.includes(job.status);
+        const clock = budgetClocks.get(job.id);
+
+        if (active && !clock) {
+            const since = Date.now();
+            const { maxRuntimeMs } = this.getBudget(job);
+            const timer = maxRuntimeMs !== undefined
+                ? setTimeout(() => this.exhaustBudget(job.id, 'runtime', `runtime limit of ${Math.round(maxRuntimeMs / 60000)}m reached`), Math.max(0, maxRuntimeMs - this.getUsage(job).runtimeMs))
+                : undefined;
+            budgetClocks.set(job.id, { since, timer });
+            jobManager.updateJob(job.id, { usage: { ...this.getUsage(job), runningSince: since } });
+        } else if (!active && clock) {
+            clearTimeout(clock.timer);
+            budgetClocks.delete(job.id);
+            const usage = this.getUsage(job);
+            jobManager.updateJob(job.id, { usage: { ...usage, runtimeMs: usage.runtimeMs + Date.now() - clock.since, runningSince: undefined } });
+        }
+    }
+
+    // Review spend limits; fix rounds are checked separately when deciding on an auto-fix
+    private checkSpend(job: Job): { kind: BudgetKind, detail: string } | null {
+        const budget = this.getBudget(job);
+        const usage = this.getUsage(job);
+        if (budget.maxReviewTokens !== undefined && usage.reviewTokens >= budget.maxReviewTokens) {
+            return { kind: 'reviewTokens', detail: `reviewer used ${usage.reviewTokens} of ${budget.maxReviewTokens} tokens` };
+        }
+        if (budget.maxReviewCostUsd !== undefined && usage.reviewCostUsd >= budget.maxReviewCostUsd) {
+            return { kind: 'reviewCost', detail: `reviewer spent $${usage.reviewCostUsd.toFixed(4)} of $${budget.maxReviewCostUsd.toFixed(2)}` };
         }
+        return null;
+    }
+
+    private recordReviewUsage(jobId: string, review?: { inputTokens: number, outputTokens: number, costUsd: number }) {
+        const job = jobManager.getJob(jobId);
+        if (!job || !review) return;
+        const usage = this.getUsage(job);
+        jobManager.updateJob(jobId, {
+            usage: {
+                ...usage,
+                reviewTokens: usage.reviewTokens + review.inputTokens + review.outputTokens,
+                reviewCostUsd: usage.reviewCostUsd + review.costUsd
+            }
+        });
+    }
+
+    // True while verify/snapshot/review (and whatever the review decision triggers) is still running
+    isPipelineActive(jobId: string): boolean {
+        return activePipelines.has(jobId);
+    }
+
+    /**
+     * One-off review of a job's latest snapshot, or of a fresh one when there is none (or fresh is set).
+     * Records the result and reviewer usage but doesn't move the job; used by `natsuki review`.
+     */
+    async reviewJob(jobId: string, fresh = false): Promise<{ success: boolean, result?: ReviewResult, snapshotId?: string, error?: string }> {
+        const job = jobManager.getJob(jobId);
+        if (!job) return { success: false, error: 'Job not found' };
+
+        let snapshotId = fresh ? undefined : job.latestSnapshotId;
+        if (!snapshotId) {
+            const snapRes = await withTimeout(createSnapshot(this.getJobCwd(job), jobId, job.description), TIMEOUTS.SNAPSHOT, 'Snapshot');
+            if (!snapRes.success || !snapRes.snapshotId) return { success: false, error: 'Snapshot failed: ' + snapRes.error };
+            snapshotId = snapRes.snapshotId;
+            jobManager.updateJob(jobId, { latestSnapshotId: snapshotId });
+        }
+
+        const reviewRes = await withTimeout(runReview(jobId, snapshotId, '', job.reviewer), TIMEOUTS.REVIEW, 'Review');
+        this.recordReviewUsage(jobId, reviewRes.usage);
+        if (!reviewRes.success || !reviewRes.result) return { success: false, snapshotId, error: 'Review failed: ' + reviewRes.error };
+
+        job.history?.push({ timestamp: Date.now(), action: 'review', result: reviewRes.result });
+        const updated = jobManager.updateJob(jobId, { reviewResult: reviewRes.result });
+        if (updated) this.host.send('job-update', updated);
+        return { success: true, result: reviewRes.result, snapshotId };
     }
 
-    async startJob(jobId: string, cwd: string) {
+    // Stops everything the job is doing and fails it with a budget_exhausted reason
+    private exhaustBudget(jobId: string, kind: BudgetKind, detail: string) {
+        const job = jobManager.getJob(jobId);
+        if (!job || job.status === 'failed' || job.status === 'cancelled' || job.status === 'completed') return;
+
+        console.warn(`[Orchestrator] Job ${jobId} budget exhausted (${kind}): ${detail}`);
+        activePipelines.get(jobId)?.abort();
+
+        const runtime = activeRuntimes.get(jobId);
+        if (runtime) {
+            setIdleCallback(runtime.sessionId, null);
+            // Stop the agent's current turn, same as cancel
+            if (job.status === 'running' || job.status === 'fixing') this.interruptAgent(job, runtime.sessionId);
+        }
+
+        const reason = `budget_exhausted: ${detail}`;
+        this.failJob(jobId, reason, 'error', { budgetExhausted: kind });
+    }
+
+    // Paused/cancelled jobs must not be advanced by in-flight work or late idle callbacks
+    private isHalted(jobId: string): boolean {
+        const status = jobManager.getJob(jobId)?.status;
+        return status === 'paused' || status === 'cancelled';
+    }
+
+    // A pipeline run is stale once it was aborted (pause/cancel/budget) or the job was halted
+    private isStale(jobId: string, controller: AbortController): boolean {
+        return controller.signal.aborted || this.isHalted(jobId);
+    }
+
+    private getAgent(job: Job): AgentAdapter {
+        return getAgentAdapter(job.agent);
+    }
+
+    private interruptAgent(job: Job, sessionId: string) {
+        this.getAgent(job).interruptKeys.forEach(keys => sendToPty(keys, sessionId));
+    }
+
+    // Advance the loop when the completion detectors say the agent finished its turn
+    private watchForIdle(jobId: string, sessionId: string) {
+        const job = jobManager.getJob(jobId);
+        if (!job) return;
+        setIdleCallback(sessionId, decision => {
+            console.log(`[Orchestrator] Agent finished for ${jobId} (confidence ${decision.confidence.toFixed(2)}: ${decision.reason}), advancing loop`);
+            jobManager.getJob(jobId)?.history?.push({ timestamp: Date.now(), action: 'advance', result: decision });
+            logEvent('job-advance', { jobId, sessionId, ...decision });
+            this.advanceLoop(jobId);
+        }, this.getAgent(job).completionProfile);
+    }
+
+    // Answers the agent's permission prompts for as long as the job has the session
+    private watchForPrompts(job: Job, sessionId: string) {
+        this.stopWatchingPrompts(job.id);
+        const workspace = job.workspace || this.getJobCwd(job);
+        promptResponders.set(job.id, new PromptResponder(
+            sessionId,
+            () => loadPromptPolicy(workspace).prompts,
+            detected => this.handlePermissionPrompt(job.id, sessionId, detected)
+        ));
+    }
+
+    private stopWatchingPrompts(jobId: string) {
+        promptResponders.get(jobId)?.dispose();
+        promptResponders.delete(jobId);
+    }
+
+    // Approve/deny per the workspace policy, or pause the job and leave the answer to the user
+    private handlePermissionPrompt(jobId: string, sessionId: string, detected: DetectedPrompt) {
+        const job = jobManager.getJob(jobId);
+        if (!job || (job.status !== 'running' && job.status !== 'fixing')) return;
+
+        let decision = decidePrompt(detected, loadPromptPolicy(job.workspace || this.getJobCwd(job)));
+        // A prompt that keeps coming back after being answered (wrong keys, a retry loop) goes to the user
+        const since = Date.now() - 60 * 1000;
+        const recentAnswers = (job.history || []).filter(h => h.action === 'permission-prompt' && h.timestamp > since && h.result?.keys !== undefined).length;
+        if (decision.keys !== undefined && recentAnswers >= MAX_PROMPT_ANSWERS_PER_MINUTE) {
+            decision = { ...decision, action: 'escalate', rule: `already answered ${MAX_PROMPT_ANSWERS_PER_MINUTE} times in a minute`, keys: undefined };
+        }
+        console.log(`[Orchestrator] Job ${jobId} permission prompt "${decision.question}": ${decision.action} (rule: ${decision.rule})`);
+        job.history?.push({ timestamp: Date.now(), action: 'permission-prompt', result: decision });
+        const updated = jobManager.updateJob(jobId, {});
+        if (updated) this.host.send('job-update', updated);
+        logEvent('job-permission-prompt', { jobId, sessionId, promptId: decision.promptId, question: decision.question, action: decision.action, rule: decision.rule });
+
+        if (decision.keys !== undefined) {
+            sendToPty(decision.keys, sessionId);
+            return;
+        }
+
+        // Nobody else will answer; don't let the idle timer mistake the wait for a finished turn
+        this.pauseJob(jobId, `Waiting for permission: ${decision.question}`);
+        this.host.send('job-attention', { jobId, question: decision.question, context: decision.context });
+    }
+
+    // Every failure goes through here so on-fail hooks and auto-rollback always run
+    private failJob(jobId: string, reason: string, cause: 'block' | 'error' = 'error', updates: Partial<Job> = {}) {
+        if (!this.updateJobStatus(jobId, 'failed', { ...updates, logSummary: reason }, reason)) return;
+        this.autoRollback(jobId, cause);
+        const hook = this.runJobHook(jobId, 'on-fail', { snapshotId: jobManager.getJob(jobId)?.latestSnapshotId })
+            .finally(() => this.pendingHooks.delete(hook));
+        this.pendingHooks.add(hook);
+    }
+
+    async settleHooks() {
+        await Promise.allSettled(Array.from(this.pendingHooks));
+    }
+
+    // Runs the workspace's commands for a lifecycle hook (see hook-runner.ts). A veto fails the job
+    // unless failOnVeto is false; a hook killed by pause/cancel is not a veto, it just stops the caller.
+    private async runJobHook(jobId: string, hook: HookName, opts: { snapshotId?: string, signal?: AbortSignal, failOnVeto?: boolean } = {}): Promise<{ proceed: boolean, reason?: string }> {
+        const job = jobManager.getJob(jobId);
+        if (!job) return { proceed: false, reason: 'Job not found' };
+
+        const result = await runHooks(hook, job, {
+            cwd: this.getJobCwd(job),
+            snapshotPath: opts.snapshotId ? getSnapshotDir(jobId, opts.snapshotId) : undefined,
+            signal: opts.signal
+        });
+        if (!result.outcomes.length) return { proceed: true };
+
+        job.history?.push({ timestamp: Date.now(), action: 'hook', result: { hook, ...result } });
+        const updated = jobManager.updateJob(jobId, {});
+        if (updated) this.host.send('job-update', updated);
+        logEvent('job-hook', { jobId, hook, vetoed: result.vetoed, reason: result.reason });
+
+        if (opts.signal?.aborted || this.isHalted(jobId)) return { proceed: false };
+        if (!result.vetoed) return { proceed: true };
+
+        const reason = `Hook ${hook} vetoed: ${result.reason}`;
+        console.warn(`[Orchestrator] Job ${jobId}: ${reason}`);
+        if (opts.failOnVeto !== false) this.failJob(jobId, reason);
+        return { proceed: false, reason };
+    }
+
+    // on-complete hooks get the last word before a job is marked completed (and auto-committed)
+    private async completeJob(jobId: string, reason: string, failOnVeto = true): Promise<{ success: boolean, error?: string }> {
+        const hook = await this.runJobHook(jobId, 'on-complete', { snapshotId: jobManager.getJob(jobId)?.latestSnapshotId, failOnVeto });
+        if (!hook.proceed) return { success: false, error: hook.reason || 'Job was stopped' };
+        if (this.updateJobStatus(jobId, 'completed', {}, reason)) await this.commitApprovedWork(jobId);
+        return { success: true };
+    }
+
+    // Drops the job's runtime and any pending idle callback on its session
+    private releaseRuntime(jobId: string) {
+        const runtime = activeRuntimes.get(jobId);
+        if (!runtime) return;
+        setIdleCallback(runtime.sessionId, null);
+        ptyManager.setOwner(runtime.sessionId, null);
+        activeRuntimes.delete(jobId);
+        stopJobRecording(jobId);
+        this.stopWatchingPrompts(jobId);
+        this.releaseSession(runtime.sessionId);
+    }
+
+    // A session this orchestrator spawned lingers briefly, so a fix job can take over its parent's
+    // agent, then is killed unless a job is using (or starting in) it again. Tabs the user opened stay.
+    private releaseSession(sessionId: string) {
+        if (!spawnedSessions.has(sessionId)) return;
+        setTimeout(() => {
+            if (!spawnedSessions.has(sessionId) || this.isSessionBusy(sessionId)) return;
+            if (Array.from(startingJobs.values()).includes(sessionId)) return;
+            spawnedSessions.delete(sessionId);
+            if (!ptyManager.has(sessionId)) return;
+            console.log(`[Orchestrator] Closing released session ${sessionId}`);
+            ptyManager.kill(sessionId);
+        }, SESSION_LINGER_MS).unref();
+    }
+
+    // Where the job's agent, verify and snapshot run: its worktree if isolated, else the workspace
+    private getJobCwd(job: Job): string {
+        return job.worktree?.path || job.workspace || process.cwd();
+    }
+
+    private isSessionBusy(sessionId: string): boolean {
+        return Array.from(activeRuntimes.values()).some(r => r.sessionId === sessionId);
+    }
+
+    // Picks the PTY session a job will drive: the requested one (a terminal tab the job was
+    // attached to), else a fresh background session for the workspace that shows up as its own
+    // tab. The user's shell tab is never taken over implicitly.
+    private resolveSession(cwd: string, requestedId?: string): { sessionId?: string, error?: string } {
+        if (requestedId) {
+            if (!ptyManager.has(requestedId)) return { error: `PTY session ${requestedId} not found` };
+            if (this.isSessionBusy(requestedId)) return { error: `PTY session ${requestedId} is already used by another job` };
+            return { sessionId: requestedId };
+        }
+
+        const sessionId = ptyManager.create(cwd, false);
+        spawnedSessions.add(sessionId);
+        return { sessionId };
+    }
+
+    // agentRunning: the session already has the agent at its prompt (e.g. a fix job taking over its parent's session)
+    async startJob(jobId: string, cwd: string, requestedSessionId?: string, agentRunning = false) {
         // Assume Job is already created in JobManager
         const job = jobManager.getJob(jobId);
         if (!job) {
@@ -98,48 +552,109 @@ export class Orchestrator {
             return { success: false, error: 'Job not found' };
         }
 
+        if (activeRuntimes.has(jobId) || startingJobs.has(jobId) || !jobManager.canPerform(jobId, 'start')) {
+            return { success: false, error: `Job cannot be started while ${job.status}` };
+        }
+
+        // Claimed before the first await; released once the job runs or the start fails
+        startingJobs.set(jobId, requestedSessionId);
+        try {
+            return await this.launchJob(job, cwd, requestedSessionId, agentRunning);
+        } finally {
+            startingJobs.delete(jobId);
+        }
+    }
+
+    private async launchJob(job: Job, cwd: string, requestedSessionId?: string, agentRunning = false) {
+        const jobId = job.id;
+        let agent: AgentAdapter;
+        try {
+            agent = this.getAgent(job);
+        } catch (e) {
+            const reason = e instanceof Error ? e.message : String(e);
+            this.failJob(jobId, reason);
+            return { success: false, error: reason };
+        }
+
         const provider = 'anthropic';
         const hasKey = !!keyManager.getApiKey(provider) || !!keyManager.getApiKey('gemini') || !!keyManager.getApiKey('openai');
 
-        activeRuntimes.set(jobId, { jobId });
-        this.updateJobStatus(jobId, 'running', { autoFixCount: 0, workspace: cwd });
+        // Isolated jobs get (or keep, e.g. fix jobs sharing their parent's) a natsuki/<jobId> worktree
+        let jobCwd = cwd;
+        if (job.useWorktree) {
+            try {
+                const worktree = job.worktree && fs.existsSync(job.worktree.path) ? job.worktree : await createJobWorktree(cwd, jobId);
+                jobManager.updateJob(jobId, { worktree });
+                jobCwd = worktree.path;
+            } catch (e) {
+                const reason = `Worktree setup failed: ${e instanceof Error ? e.message : String(e)}`;
+                this.failJob(jobId, reason);
+                return { success: false, error: reason };
+            }
+            // A session in the user's checkout would edit the wrong tree
+            if (requestedSessionId && ptyManager.getCwd(requestedSessionId) !== jobCwd) requestedSessionId = undefined;
+        }
 
-        if (hasKey) console.log(`[Orchestrator] Autonomous mode enabled for Job ${jobId}`);
-        else console.log(`[Orchestrator] Manual mode (No Reviewer Key found)`);
+        // Pre-job state for rollback (not fatal: e.g. the workspace isn't a git repo yet)
+        const baseline = await captureBaseline(jobCwd, jobId).catch(e => {
+            console.warn(`[Orchestrator] No rollback baseline for ${jobId}:`, e instanceof Error ? e.message : e);
+            return undefined;
+        });
+        jobManager.updateJob(jobId, { baseline });
+
+        const preStart = await this.runJobHook(jobId, 'pre-start');
+        if (!preStart.proceed) return { success: false, error: preStart.reason || 'Job was stopped' };
 
-        // ★ CRITICAL: Explicitly Spawn Claude
-        // We need the active session ID. For now, we assume single active workspace logic.
-        const sessionId = ptyManager.activeSessionId;
+        // ★ CRITICAL: Each job owns its PTY session
+        const { sessionId, error } = this.resolveSession(jobCwd, requestedSessionId);
         if (!sessionId) {
-            console.error('[Orchestrator] No active PTY session found.');
-            // Should we try to create one? Or fail? Fail is safer.
-            this.updateJobStatus(jobId, 'failed', { description: 'No active PTY session. Please open a workspace.' });
-            return { success: false, error: 'No PTY session' };
+            console.error(`[Orchestrator] No PTY session for Job ${jobId}: ${error}`);
+            this.failJob(jobId, error || 'No PTY session available');
+            return { success: false, error };
         }
 
-        console.log(`[Orchestrator] Spawning Claude for Job ${jobId} in session ${sessionId}`);
-        ptyManager.spawnClaude(sessionId);
+        activeRuntimes.set(jobId, { jobId, sessionId });
+        ptyManager.setOwner(sessionId, jobId);
+        ptyManager.markScrollback(sessionId, `job-start:${jobId}`); // the first snapshot's transcript starts here
+        startJobRecording(job, sessionId);
+        this.watchForPrompts(job, sessionId);
+        const usage: JobUsage = { runtimeMs: 0, reviewTokens: 0, reviewCostUsd: 0 };
+        if (!this.updateJobStatus(jobId, 'running', { autoFixCount: 0, workspace: cwd, sessionId, usage, budgetExhausted: undefined }, 'Started')) {
+            this.releaseRuntime(jobId);
+            return { success: false, error: `Job cannot be started while ${job.status}` };
+        }
+
+        if (hasKey) console.log(`[Orchestrator] Autonomous mode enabled for Job ${jobId}`);
+        else console.log(`[Orchestrator] Manual mode (No Reviewer Key found)`);
+
+        if (!agentRunning) {
+            console.log(`[Orchestrator] Spawning ${agent.name} for Job ${jobId} in session ${sessionId}`);
+            ptyManager.spawnAgent(sessionId, agent);
+        }
 
-        // Wait a bit for Claude to initialize
-        await new Promise(r => setTimeout(r, 2000));
+        // Wait a bit for the agent to initialize (or finish printing its last turn)
+        await new Promise(r => setTimeout(r, agentRunning ? 2000 : agent.startupDelayMs));
+        if (activeRuntimes.get(jobId)?.sessionId !== sessionId) {
+            return { success: false, error: 'Job was cancelled before the prompt was sent' };
+        }
 
         // Send the job description as the first prompt
         const prompt = this.buildInitialPrompt(job);
-        console.log(`[Orchestrator] Sending initial prompt to Claude: ${prompt.slice(0, 100)}...`);
-        sendToPty(prompt + '\r');
+        console.log(`[Orchestrator] Sending initial prompt to ${agent.name}: ${prompt.slice(0, 100)}...`);
+        sendToPty(agent.formatPrompt(prompt), sessionId);
 
-        // Register idle callback for auto-advance (triggers after Claude finishes)
-        setIdleCallback(() => {
-            console.log(`[Orchestrator] PTY idle detected, advancing loop for ${jobId}`);
-            this.advanceLoop(jobId);
-        });
+        // Register idle callback for auto-advance (triggers after the agent finishes); resume re-registers it if paused
+        if (!this.isHalted(jobId)) this.watchForIdle(jobId, sessionId);
 
         console.log(`[Orchestrator] Job ${jobId} started with prompt.`);
         return { success: true };
     }
 
     private buildInitialPrompt(job: Job): string {
-        // Build a clear prompt for Claude Code
+        // Template jobs carry their own full prompt
+        if (job.prompt) return job.prompt;
+
+        // Build a clear prompt for the agent
         let prompt = job.description;
 
         // If it's a Fix job, the description already contains the structured feedback
@@ -155,80 +670,148 @@ export class Orchestrator {
     async advanceLoop(jobId: string) {
         const job = jobManager.getJob(jobId);
         if (!job) return;
+        const runtime = activeRuntimes.get(jobId);
 
         // Clear idle callback while we're processing
-        setIdleCallback(null);
+        if (runtime) setIdleCallback(runtime.sessionId, null);
 
         console.log(`[Orchestrator] Advancing loop for ${jobId} (current: ${job.status})`);
 
-        try {
-            // Sequence: Running -> Verifying -> Snapshot -> Review -> (Fix or Complete)
+        // Sequence: Running -> Verifying -> Snapshot -> Review -> (Fix or Complete)
+        if (job.status === 'running' || job.status === 'fixing') {
+            // Assume execution finished (manual trigger or detected idle).
 
-            if (job.status === 'running' || job.status === 'fixing') {
-                // Assume execution finished (manual trigger or detected idle).
+            // Cooldown: Wait for file system stability (simple sleep for v0.1)
+            await new Promise(r => setTimeout(r, 2000));
+            if (this.isHalted(jobId)) return;
 
-                // Cooldown: Wait for file system stability (simple sleep for v0.1)
-                await new Promise(r => setTimeout(r, 2000));
+            await this.runPipeline(jobId);
+        }
+    }
 
-                // Next: Verify
-                this.updateJobStatus(jobId, 'verifying');
-                const verifyRes = await withTimeout(
-                    runVerify(job.workspace || process.cwd(), 'lint'),
-                    TIMEOUTS.VERIFY,
-                    'Verification'
-                );
+    // Verify -> Snapshot -> Review for the current workspace state, then hands off to handleReviewDecision.
+    // `from` skips already finished phases (e.g. re-review the latest snapshot after a restart).
+    private async runPipeline(jobId: string, from: PipelinePhase = 'verify') {
+        const job = jobManager.getJob(jobId);
+        if (!job) return;
+        const sessionId = activeRuntimes.get(jobId)?.sessionId ?? job.sessionId;
 
-                if (job.history) {
-                    job.history.push({ timestamp: Date.now(), action: 'verify', result: verifyRes });
-                }
-                this.updateJobStatus(jobId, 'verifying'); // Trigger save
+        const controller = new AbortController();
+        activePipelines.get(jobId)?.abort();
+        activePipelines.set(jobId, controller);
+
+        try {
+            let verifyResults: VerifyStepResult[] = [];
+            if (from === 'verify') {
+                // Next: Verify
+                if (!this.updateJobStatus(jobId, 'verifying')) return;
+                verifyResults = await this.runVerifySteps(job, controller);
+                if (this.isStale(jobId, controller)) return;
+                if (!(await this.runJobHook(jobId, 'post-verify', { signal: controller.signal })).proceed || this.isStale(jobId, controller)) return;
+            }
 
+            let snapshotId = job.latestSnapshotId;
+            if (from !== 'review' || !snapshotId) {
                 // Next: Snapshot
-                this.updateJobStatus(jobId, 'snapshotting');
+                if (!this.updateJobStatus(jobId, 'snapshotting')) return;
                 const snapRes = await withTimeout(
-                    createSnapshot(job.workspace || process.cwd(), jobId, job.description),
+                    createSnapshot(this.getJobCwd(job), jobId, job.description, sessionId, verifyResults),
                     TIMEOUTS.SNAPSHOT,
                     'Snapshot'
                 );
+                if (this.isStale(jobId, controller)) return;
 
                 if (!snapRes.success || !snapRes.snapshotId) {
-                    this.updateJobStatus(jobId, 'failed', { description: 'Snapshot failed: ' + snapRes.error });
+                    this.failJob(jobId, 'Snapshot failed: ' + snapRes.error);
                     return;
                 }
 
                 // Update latestSnapshotId
-                this.updateJobStatus(jobId, 'snapshotting', { latestSnapshotId: snapRes.snapshotId });
-
-                // Next: Review (Key Check)
-                const provider = 'anthropic';
-                const hasKey = !!keyManager.getApiKey(provider) || !!keyManager.getApiKey('gemini') || !!keyManager.getApiKey('openai');
-
-                if (hasKey) {
-                    this.updateJobStatus(jobId, 'reviewing', { latestSnapshotId: snapRes.snapshotId });
-
-                    const reviewRes = await withTimeout(
-                        runReview(jobId, snapRes.snapshotId, ''),
-                        TIMEOUTS.REVIEW,
-                        'Review'
-                    );
-
-                    if (reviewRes.success && reviewRes.result) {
-                        if (job.history) job.history.push({ timestamp: Date.now(), action: 'review', result: reviewRes.result });
-                        // Save history and result
-                        this.updateJobStatus(jobId, 'reviewing', { reviewResult: reviewRes.result });
-                        await this.handleReviewDecision(jobId, reviewRes.result);
-                    } else {
-                        // If review failed (API error or safety block), we mark as failed
-                        this.updateJobStatus(jobId, 'failed', { description: 'Review failed: ' + reviewRes.error });
-                    }
+                snapshotId = snapRes.snapshotId;
+                this.updateJobStatus(jobId, 'snapshotting', { latestSnapshotId: snapshotId });
+                markJobRecording(jobId, `snapshot ${snapshotId}`);
+                if (!(await this.runJobHook(jobId, 'post-snapshot', { snapshotId, signal: controller.signal })).proceed || this.isStale(jobId, controller)) return;
+            }
+
+            // Next: Review (Key Check)
+            const provider = 'anthropic';
+            const hasKey = !!keyManager.getApiKey(provider) || !!keyManager.getApiKey('gemini') || !!keyManager.getApiKey('openai');
+
+            if (hasKey) {
+                // Don't spend on another review once the reviewer budget is gone
+                const overSpent = this.checkSpend(jobManager.getJob(jobId) || job);
+                if (overSpent) {
+                    this.exhaustBudget(jobId, overSpent.kind, overSpent.detail);
+                    return;
+                }
+                if (!this.updateJobStatus(jobId, 'reviewing', { latestSnapshotId: snapshotId })) return;
+
+                const reviewRes = await withTimeout(
+                    runReview(jobId, snapshotId, '', job.reviewer),
+                    TIMEOUTS.REVIEW,
+                    'Review'
+                );
+                this.recordReviewUsage(jobId, reviewRes.usage);
+                if (this.isStale(jobId, controller)) return;
+
+                if (reviewRes.success && reviewRes.result) {
+                    if (job.history) job.history.push({ timestamp: Date.now(), action: 'review', result: reviewRes.result });
+                    // Save history and result
+                    this.updateJobStatus(jobId, 'reviewing', { reviewResult: reviewRes.result });
+                    if (!(await this.runJobHook(jobId, 'on-review', { snapshotId, signal: controller.signal })).proceed || this.isStale(jobId, controller)) return;
+                    await this.handleReviewDecision(jobId, reviewRes.result);
                 } else {
-                    this.updateJobStatus(jobId, 'waiting_approval', { latestSnapshotId: snapRes.snapshotId });
+                    // If review failed (API error or safety block), we mark as failed
+                    this.failJob(jobId, 'Review failed: ' + reviewRes.error);
                 }
+            } else {
+                this.updateJobStatus(jobId, 'waiting_approval', { latestSnapshotId: snapshotId }, 'No reviewer key (manual mode)');
             }
         } catch (e) {
+            // Timeouts abort the controller too, so check status here (budget exhaustion already failed the job)
+            if (this.isHalted(jobId) || jobManager.getJob(jobId)?.status === 'failed') return;
             console.error(e);
-            this.updateJobStatus(jobId, 'failed');
+            this.failJob(jobId, e instanceof Error ? e.message : String(e));
+        } finally {
+            if (activePipelines.get(jobId) === controller) activePipelines.delete(jobId);
+        }
+    }
+
+    // Runs the job's verify steps in order. A failing step stops the rest unless it is continueOnError.
+    // Each step lands in history as it finishes; failures don't stop the pipeline (they are review evidence).
+    private async runVerifySteps(job: Job, controller: AbortController): Promise<VerifyStepResult[]> {
+        const steps = job.verifySteps?.length ? job.verifySteps : DEFAULT_VERIFY_STEPS;
+        const results: VerifyStepResult[] = [];
+        let stopped = false;
+
+        for (const step of steps) {
+            if (stopped) {
+                const skipped = skippedStep(step.profile);
+                results.push(skipped);
+                job.history?.push({ timestamp: Date.now(), action: 'verify', result: skipped });
+                continue;
+            }
+
+            const startedAt = Date.now();
+            const res = await withTimeout(
+                runVerify(this.getJobCwd(job), step.profile, controller.signal),
+                TIMEOUTS.VERIFY,
+                `Verification (${step.profile})`,
+                controller
+            );
+            if (this.isStale(job.id, controller)) return results;
+
+            const result: VerifyStepResult = { ...res, profile: step.profile, skipped: false, durationMs: Date.now() - startedAt };
+            results.push(result);
+            job.history?.push({ timestamp: Date.now(), action: 'verify', result });
+            this.updateJobStatus(job.id, 'verifying'); // Trigger save
+
+            if (!res.success && !step.continueOnError) {
+                console.log(`[Orchestrator] Verify step '${step.profile}' failed for ${job.id}, skipping remaining steps`);
+                stopped = true;
+            }
         }
+        return results;
     }
 
     // To be called when Review is done (could be via UI or auto)
@@ -239,38 +822,381 @@ export class Orchestrator {
         // job.reviewResult = result; // already saved above
 
         if (result.decision === 'APPROVE' || result.decision === 'EXCELLENT') {
-            this.updateJobStatus(jobId, 'completed');
+            await this.completeJob(jobId, `Review ${result.decision}`);
         } else if (result.decision === 'IMPROVE') {
-            if ((job.autoFixCount || 0) < MAX_AUTO_FIXES) {
-                const newCount = (job.autoFixCount || 0) + 1;
-                this.updateJobStatus(jobId, 'fixing', { autoFixCount: newCount });
-
-                // Drive Claude to fix it!
-                const issuesText = result.issues.map(i => `- [${i.severity}] ${i.title}: ${i.evidence || ''}`).join('\n');
-                const fixPrompt = `Review Feedback (Level ${result.achievedLevel}):\n${issuesText}\n\nPlease fix these issues to reach the next level.`;
-                sendToPty(`${fixPrompt}\r`);
-
-                // Re-register idle callback to detect when Claude finishes fixing
-                setIdleCallback(() => {
-                    console.log(`[Orchestrator] PTY idle detected during fix, advancing loop for ${jobId}`);
-                    this.advanceLoop(jobId);
-                });
+            const { maxFixIterations } = this.getBudget(job);
+            const overSpent = this.checkSpend(job);
+            if (maxFixIterations !== undefined && (job.autoFixCount || 0) >= maxFixIterations) {
+                this.exhaustBudget(jobId, 'fixIterations', `${job.autoFixCount || 0} of ${maxFixIterations} fix rounds used`);
+            } else if (overSpent) {
+                this.exhaustBudget(jobId, overSpent.kind, overSpent.detail);
             } else {
-                this.updateJobStatus(jobId, 'failed', { description: 'Max auto-fix limit reached' });
+                await this.sendFix(jobId, result);
             }
         } else {
             // BLOCK
-            this.updateJobStatus(jobId, 'failed', { description: 'Review blocked: ' + result.summary });
+            this.failJob(jobId, 'Review blocked: ' + result.summary, 'block');
+            if (this.settings.fixChain.autoStart) await this.createFixJob(jobId, result);
         }
     }
 
-    async handleUserAction(jobId: string, action: 'approve' | 'fix' | 'retry') {
+    // Auto-commit step for completed jobs. Worktree jobs commit everything on their branch;
+    // in the shared checkout only files that changed since the job (or the job its fix chain
+    // started from) began are committed, so the user's earlier edits stay out.
+    // A failed commit is recorded but doesn't undo the approval.
+    private async commitApprovedWork(jobId: string) {
         const job = jobManager.getJob(jobId);
-        if (!job) return;
-        // Allows user to override state manually (e.g. force fix)
+        if (!this.settings.autoCommit || !job) return;
+
+        const message = this.buildCommitMessage(job);
+        try {
+            let paths: string[] | undefined;
+            if (!job.worktree) {
+                const baseline = this.getChainBaseline(job);
+                if (!baseline) {
+                    console.log(`[Orchestrator] Not committing ${jobId}: no start state to tell its changes from the user's`);
+                    return;
+                }
+                paths = await getChangedSinceBaseline(this.getJobCwd(job), baseline);
+            }
+            const sha = await commitChanges(this.getJobCwd(job), message, paths);
+            if (!sha) {
+                console.log(`[Orchestrator] Nothing to commit for ${jobId}`);
+                return;
+            }
+            job.history?.push({ timestamp: Date.now(), action: 'commit', result: { sha, message } });
+            const updated = jobManager.updateJob(jobId, { commitSha: sha });
+            if (updated) this.host.send('job-update', updated);
+            console.log(`[Orchestrator] Committed ${jobId} as ${sha.slice(0, 8)}`);
+        } catch (e) {
+            const error = e instanceof Error ? e.message : String(e);
+            console.error(`[Orchestrator] Auto-commit failed for ${jobId}:`, error);
+            job.history?.push({ timestamp: Date.now(), action: 'commit-failed', result: { error } });
+            jobManager.updateJob(jobId, {});
+        }
+    }
+
+    // Fix jobs start on top of their parent's uncommitted edits; the chain's first baseline covers all of them
+    private getChainBaseline(job: Job): WorkspaceBaseline | undefined {
+        let baseline = job.baseline;
+        const seen = new Set([job.id]);
+        let parent = job.parentJobId ? jobManager.getJob(job.parentJobId) : undefined;
+        while (parent && !seen.has(parent.id) && !parent.commitSha) {
+            seen.add(parent.id);
+            if (parent.baseline) baseline = parent.baseline;
+            parent = parent.parentJobId ? jobManager.getJob(parent.parentJobId) : undefined;
+        }
+        return baseline;
+    }
+
+    private buildCommitMessage(job: Job): string {
+        const review: ReviewResult | undefined = job.reviewResult;
+        const title = job.description.startsWith('[Fix]')
+            ? `Address review feedback${job.parentJobId ? ` for ${job.parentJobId}` : ''}`
+            : job.description.split('\n')[0];
+
+        let message = title.length > 72 ? title.slice(0, 69) + '...' : title;
+        if (review?.summary) message += `\n\n${review.summary}`;
+        message += `\n\nReview: ${review ? `${review.decision} (level: ${review.achievedLevel})` : 'approved manually'}`;
+        message += `\nNatsuki-Job: ${job.id}`;
+        return message;
+    }
+
+    // Rollback setting applied to a job that just failed. A BLOCK that is handed to an
+    // auto-started fix job is kept, since the fix job works on top of those edits.
+    private autoRollback(jobId: string, cause: 'block' | 'error') {
+        if (this.settings.rollbackMode === 'off' || !jobManager.getJob(jobId)?.baseline) return;
+        if (this.settings.rollbackMode === 'block' && cause !== 'block') return;
+        if (cause === 'block' && this.settings.fixChain.autoStart) {
+            console.log(`[Orchestrator] Keeping edits of ${jobId} for its fix job (no auto-rollback)`);
+            return;
+        }
+        this.rollbackJob(jobId).then(res => {
+            if (!res.success) console.error(`[Orchestrator] Auto-rollback of ${jobId} failed: ${res.error}`);
+        });
+    }
+
+    // Restores the files the job touched to their pre-job content (see rollbackToBaseline)
+    async rollbackJob(jobId: string): Promise<{ success: boolean, restored?: string[], removed?: string[], error?: string }> {
+        const job = jobManager.getJob(jobId);
+        if (!job) return { success: false, error: 'Job not found' };
+        if (!job.baseline) return { success: false, error: 'Job has no baseline to roll back to' };
+        // Not while something is still editing; completed work is reverted with git instead
+        if (!['failed', 'cancelled', 'waiting_approval', 'interrupted'].includes(job.status)) {
+            return { success: false, error: `Cannot roll back while ${job.status}` };
+        }
+        if (job.baseline.rolledBackAt) return { success: false, error: 'Job was already rolled back' };
+
+        // Restoring this job's baseline would also undo jobs started in the same checkout after it
+        const cwd = this.getJobCwd(job);
+        const later = jobManager.getAllJobs().find(j => j.id !== jobId && j.baseline && !j.baseline.rolledBackAt
+            && j.baseline.createdAt > job.baseline!.createdAt && this.getJobCwd(j) === cwd);
+        if (later) return { success: false, error: `${later.id} started in this workspace later; roll that back first` };
+
+        try {
+            const { restored, removed } = await rollbackToBaseline(cwd, job.baseline, job.worktree ? undefined : jobId);
+            job.history?.push({ timestamp: Date.now(), action: 'rollback', result: { restored, removed } });
+            const updated = jobManager.updateJob(jobId, { baseline: { ...job.baseline, rolledBackAt: Date.now() } });
+            if (updated) this.host.send('job-update', updated);
+            return { success: true, restored, removed };
+        } catch (e) {
+            const error = e instanceof Error ? e.message : String(e);
+            job.history?.push({ timestamp: Date.now(), action: 'rollback-failed', result: { error } });
+            jobManager.updateJob(jobId, {});
+            return { success: false, error };
+        }
+    }
+
+    // Creates a fix job for the parent's review and, with fix chaining on, starts it in the
+    // parent's workspace (and session, if it's free) unless the chain is already too deep.
+    private async createFixJob(parentJobId: string, result: ReviewResult): Promise<{ job: Job, autoStarted: boolean }> {
+        const fixJob = jobManager.createFixJob(parentJobId, result);
+        const parent = jobManager.getJob(parentJobId);
+        if (parent) this.host.send('job-update', parent);
+        this.host.send('job-update', fixJob);
+
+        if (!this.settings.fixChain.autoStart || !parent) return { job: fixJob, autoStarted: false };
+
+        const depth = fixJob.chainDepth || 0;
+        if (depth > this.settings.fixChain.maxDepth) {
+            const reason = `Fix chain depth cap (${this.settings.fixChain.maxDepth}) reached, not auto-starting`;
+            console.warn(`[Orchestrator] ${reason}: ${fixJob.id}`);
+            jobManager.updateJob(fixJob.id, { logSummary: reason });
+            return { job: fixJob, autoStarted: false };
+        }
+
+        const canReuse = !!parent.sessionId && ptyManager.has(parent.sessionId) && !this.isSessionBusy(parent.sessionId);
+        const sessionId = canReuse ? parent.sessionId : undefined;
+        console.log(`[Orchestrator] Auto-starting fix job ${fixJob.id} (depth ${depth}) for ${parentJobId}${sessionId ? ` in session ${sessionId}` : ''}`);
+        const res = await this.startJob(fixJob.id, parent.workspace || process.cwd(), sessionId, canReuse);
+        return { job: jobManager.getJob(fixJob.id) || fixJob, autoStarted: res.success };
+    }
+
+    // Re-attaches a job to a PTY session running its agent (e.g. after it was released on failure)
+    private async ensureRuntime(job: Job): Promise<JobRuntime | null> {
+        const existing = activeRuntimes.get(job.id);
+        if (existing) return existing;
+
+        const cwd = this.getJobCwd(job);
+        const canReuse = !!job.sessionId && ptyManager.has(job.sessionId) && !this.isSessionBusy(job.sessionId);
+        const { sessionId, error } = canReuse ? { sessionId: job.sessionId, error: undefined } : this.resolveSession(cwd);
+        if (!sessionId) {
+            console.error(`[Orchestrator] Cannot re-attach Job ${job.id}: ${error}`);
+            return null;
+        }
+
+        const runtime: JobRuntime = { jobId: job.id, sessionId };
+        activeRuntimes.set(job.id, runtime);
+        ptyManager.setOwner(sessionId, job.id);
+        jobManager.updateJob(job.id, { sessionId });
+        startJobRecording(job, sessionId);
+        this.watchForPrompts(job, sessionId);
+
+        if (!canReuse) {
+            // Fresh session: the agent is not running there yet
+            ptyManager.markScrollback(sessionId, `job-start:${job.id}`);
+            const agent = this.getAgent(job);
+            ptyManager.spawnAgent(sessionId, agent);
+            await new Promise(r => setTimeout(r, agent.startupDelayMs));
+        }
+        return runtime;
+    }
+
+    // Sends review feedback to the agent and waits for the next idle to re-run the pipeline
+    private async sendFix(jobId: string, result: ReviewResult): Promise<boolean> {
+        const job = jobManager.getJob(jobId);
+        if (!job) return false;
+
+        const runtime = await this.ensureRuntime(job);
+        if (!runtime) {
+            this.failJob(jobId, 'PTY session is gone, cannot fix');
+            return false;
+        }
+
+        const newCount = (job.autoFixCount || 0) + 1;
+        if (!this.updateJobStatus(jobId, 'fixing', { autoFixCount: newCount }, `Fix #${newCount}`)) return false;
+
+        // Drive the agent to fix it!
+        sendToPty(this.getAgent(job).formatPrompt(this.buildFixPrompt(result)), runtime.sessionId);
+
+        // Re-register idle callback to detect when the agent finishes fixing
+        this.watchForIdle(jobId, runtime.sessionId);
+        return true;
+    }
+
+    private buildFixPrompt(result: ReviewResult): string {
+        const issuesText = result.issues.map(i => `- [${i.severity}] ${i.title}: ${i.evidence || ''}`).join('\n');
+        return `Review Feedback (Level ${result.achievedLevel}):\n${issuesText}\n\nPlease fix these issues to reach the next level.`;
+    }
+
+    // Manual overrides from the UI (the only way forward in manual mode / after auto-fix gave up)
+    async handleUserAction(jobId: string, action: 'approve' | 'fix' | 'retry'): Promise<{ success: boolean, error?: string }> {
+        const job = jobManager.getJob(jobId);
+        if (!job) return { success: false, error: 'Job not found' };
+
+        if (!jobManager.canPerform(jobId, action)) {
+            return { success: false, error: `'${action}' is not allowed while ${job.status}` };
+        }
+
+        console.log(`[Orchestrator] User action '${action}' on Job ${jobId} (current: ${job.status})`);
+        const record = () => job.history?.push({ timestamp: Date.now(), action: `user-${action}`, result: { from: job.status } });
+
+        switch (action) {
+            case 'approve': {
+                // Failed jobs can only be approved if the reviewer said IMPROVE (not BLOCK)
+                if (job.status !== 'waiting_approval' && job.reviewResult?.decision !== 'IMPROVE') {
+                    return { success: false, error: 'Only waiting_approval or IMPROVE jobs can be approved' };
+                }
+                record();
+                // A vetoing on-complete hook refuses the approval but leaves the job as it was
+                return this.completeJob(jobId, 'Approved by user', false);
+            }
+            case 'fix': {
+                // Explicit user request, so the auto-fix cap does not apply
+                if (!job.reviewResult) return { success: false, error: 'No review result to fix' };
+                record();
+                const sent = await this.sendFix(jobId, job.reviewResult);
+                return sent ? { success: true } : { success: false, error: 'No PTY session available' };
+            }
+            case 'retry': {
+                // Fire and forget, progress is reported via job-update
+                record();
+                this.runPipeline(jobId);
+                return { success: true };
+            }
+            default:
+                return { success: false, error: `Unknown action: ${action}` };
+        }
+    }
+
+    // Commits the job's worktree and brings its branch into the user's checkout (approved jobs only)
+    async mergeWorktree(jobId: string, mode: 'merge' | 'cherry-pick'): Promise<{ success: boolean, error?: string }> {
+        const job = jobManager.getJob(jobId);
+        if (!job) return { success: false, error: 'Job not found' };
+        if (!job.worktree) return { success: false, error: 'Job has no worktree' };
+        if (job.status !== 'completed') return { success: false, error: `Only completed jobs can be merged (job is ${job.status})` };
+        if (job.worktree.merged) return { success: false, error: `Already merged (${job.worktree.merged})` };
+
+        try {
+            const title = job.description.replace('[Fix] ', '').split('\n')[0].slice(0, 72);
+            await commitChanges(job.worktree.path, `natsuki(${jobId}): ${title}`);
+            await mergeJobWorktree(job.worktree, mode);
+        } catch (e) {
+            const error = e instanceof Error ? e.message : String(e);
+            console.error(`[Orchestrator] Worktree ${mode} failed for ${jobId}:`, error);
+            return { success: false, error };
+        }
+
+        job.history?.push({ timestamp: Date.now(), action: `worktree-${mode}`, result: { branch: job.worktree.branch } });
+        const updated = jobManager.updateJob(jobId, { worktree: { ...job.worktree, merged: mode, mergedAt: Date.now() } });
+        if (updated) this.host.send('job-update', updated);
+        console.log(`[Orchestrator] ${mode} of ${job.worktree.branch} into ${job.worktree.repoPath} done`);
+        return { success: true };
+    }
+
+    async removeWorktree(jobId: string, deleteBranch: boolean): Promise<{ success: boolean, error?: string }> {
+        const job = jobManager.getJob(jobId);
+        if (!job?.worktree) return { success: false, error: 'Job has no worktree' };
+
+        // Fix jobs share their parent's worktree; don't pull it out from under a live one
+        const inUse = jobManager.getAllJobs().some(j => j.id !== jobId && j.worktree?.path === job.worktree!.path && activeRuntimes.has(j.id));
+        if (activeRuntimes.has(jobId) || inUse) return { success: false, error: 'Worktree is in use by a running job' };
+
+        // Quit agents still sitting in the worktree before its directory goes away
+        ptyManager.findSessionsByCwd(job.worktree.path).forEach(sessionId => {
+            sendToPty(this.getAgent(job).exitKeys, sessionId);
+            setTimeout(() => ptyManager.kill(sessionId), 1000);
+        });
+
+        try {
+            await removeJobWorktree(job.worktree, deleteBranch);
+        } catch (e) {
+            return { success: false, error: e instanceof Error ? e.message : String(e) };
+        }
+        const updated = jobManager.updateJob(jobId, { worktree: undefined });
+        if (updated) this.host.send('job-update', updated);
+        return { success: true };
+    }
+
+    private checkAction(jobId: string, action: JobAction): { job?: Job, error?: string } {
+        const job = jobManager.getJob(jobId);
+        if (!job) return { error: 'Job not found' };
+        if (!jobManager.canPerform(jobId, action)) return { error: `'${action}' is not allowed while ${job.status}` };
+        return { job };
+    }
+
+    // Stops driving the job: no auto-advance and in-flight verify is aborted. The agent itself keeps its PTY.
+    pauseJob(jobId: string, reason: string = 'Paused by user'): { success: boolean, error?: string } {
+        const { job, error } = this.checkAction(jobId, 'pause');
+        if (!job) return { success: false, error };
+
+        const pausedFrom = job.status;
+        if (!this.updateJobStatus(jobId, 'paused', { pausedFrom, logSummary: reason }, `${reason} (was ${pausedFrom})`)) {
+            return { success: false, error: `Cannot pause while ${job.status}` };
+        }
+
+        const runtime = activeRuntimes.get(jobId);
+        if (runtime) setIdleCallback(runtime.sessionId, null);
+        activePipelines.get(jobId)?.abort();
+        return { success: true };
+    }
+
+    // Agent phases go back to waiting for idle; pipeline phases restart from verify.
+    // Interrupted jobs (app restart) continue from their recorded resumePhase.
+    async resumeJob(jobId: string): Promise<{ success: boolean, error?: string }> {
+        const { job, error } = this.checkAction(jobId, 'resume');
+        if (!job) return { success: false, error };
+
+        if (job.status === 'interrupted') {
+            const phase = job.resumePhase || 'verify';
+            job.history?.push({ timestamp: Date.now(), action: 'recover', result: { from: job.interruptedFrom, phase } });
+            jobManager.updateJob(jobId, { interruptedFrom: undefined, resumePhase: undefined });
+            this.runPipeline(jobId, phase);
+            return { success: true };
+        }
+
+        const from = job.pausedFrom;
+        if (from === 'running' || from === 'fixing') {
+            const runtime = await this.ensureRuntime(job);
+            if (!runtime) return { success: false, error: 'No PTY session available' };
+            if (!this.updateJobStatus(jobId, from, { pausedFrom: undefined }, 'Resumed by user')) {
+                return { success: false, error: `Cannot resume to ${from}` };
+            }
+            this.watchForIdle(jobId, runtime.sessionId);
+        } else {
+            jobManager.updateJob(jobId, { pausedFrom: undefined });
+            this.runPipeline(jobId);
+        }
+        return { success: true };
+    }
+
+    cancelJob(jobId: string, reason: string = 'Cancelled by user'): { success: boolean, error?: string } {
+        const { job, error } = this.checkAction(jobId, 'cancel');
+        if (!job) return { success: false, error };
+
+        // Abort verify child processes before the status flips so nothing advances afterwards
+        activePipelines.get(jobId)?.abort();
+
+        const runtime = activeRuntimes.get(jobId);
+        if (runtime) {
+            setIdleCallback(runtime.sessionId, null);
+            // Interrupt whatever the agent is doing (keys come from its adapter)
+            this.interruptAgent(job, runtime.sessionId);
+        }
+
+        if (!this.updateJobStatus(jobId, 'cancelled', { logSummary: reason, pausedFrom: undefined }, reason)) {
+            return { success: false, error: `Cannot cancel while ${job.status}` };
+        }
+        return { success: true };
     }
 }
 
 export function setupOrchestrator(win: BrowserWindow) {
-    new Orchestrator(win);
+    const orchestrator = new Orchestrator({
+        send: (channel, payload) => {
+            if (!win.isDestroyed()) win.webContents.send(channel, payload);
+        }
+    });
+    orchestrator.setupIPC();
+    return orchestrator;
 }
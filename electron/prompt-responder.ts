@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { builder, getScreenLines } from './pty-manager';
+
+/**
+ * Permission prompts: agents stop and ask before running a command or editing a file.
+ * A PromptResponder watches a job's session on the rendered screen (see terminal-normalizer.ts)
+ * and reports a prompt once output settles with one at the bottom; the workspace policy in
+ * <workspace>/.natsuki/permissions.json decides the answer, e.g.
+ *
+ *   { "default": "escalate",
+ *     "rules": [{ "match": "npm (run )?(test|lint|build)", "action": "approve" },
+ *               { "match": "git push|rm -rf", "action": "deny" }],
+ *     "prompts": [{ "id": "terraform", "match": "Enter a value:\\s*$", "approve": "yes\r", "deny": "no\r" }] }
+ *
+ * Rules are regexes (case-insensitive) matched against what is being asked about: the prompt's
+ * box (from its top border to the question) or, without one, the paragraph ending in the question.
+ * Earlier output and the answer menu don't count. Deny rules are tried first, then escalate, then
+ * approve, so `npm test && git push` is denied whatever order the file lists them in; no match
+ * falls back to the default (escalate).
+ * "prompts" adds prompt patterns to the built-in ones, or replaces one with the same id.
+ */
+
+export type PromptAction = 'approve' | 'deny' | 'escalate';
+
+const PROMPT_ACTIONS: PromptAction[] = ['approve', 'deny', 'escalate'];
+
+export interface PermissionPrompt {
+    id: string;
+    match: RegExp; // tested per rendered line, box sides stripped
+    approveKeys: string;
+    denyKeys: string;
+}
+
+export interface PromptRule {
+    match: RegExp;
+    action: PromptAction;
+    prompt?: string; // only for this prompt id
+}
+
+export interface PromptPolicy {
+    default: PromptAction;
+    rules: PromptRule[];
+    prompts: PermissionPrompt[];
+}
+
+export interface DetectedPrompt {
+    promptId: string;
+    question: string; // the matched line
+    context: string; // the block being asked about, ending with the question
+}
+
+export interface PromptDecision extends DetectedPrompt {
+    action: PromptAction;
+    rule: string; // the matching rule's pattern, or 'default'
+    keys?: string; // what was typed (approve/deny)
+}
+
+const BUILTIN_PROMPTS: PermissionPrompt[] = [
+    // Claude Code's menu: the first option (Yes) is selected, Esc is "No, tell Claude what to do differently"
+    { id: 'claude', match: /^\W*Do you want to (proceed|make this edit|create|allow|run)\b.*\?\s*$/i, approveKeys: '\r', denyKeys: '\x1b' },
+    { id: 'allow', match: /\bAllow (this|the following) (command|action|tool|edit)\b.*\?/i, approveKeys: 'y\r', denyKeys: 'n\r' },
+    { id: 'yes-no', match: /(\(y\/n\)|\[y\/n\]|\(yes\/no\))\s*[:?]?\s*$/i, approveKeys: 'y\r', denyKeys: 'n\r' }
+];
+
+const SETTLE_MS = 500; // a prompt is drawn in bursts; look once output has stopped
+const PROMPT_WINDOW_LINES = 12; // the question must be this close to the bottom (menu options follow it)
+const CONTEXT_LINES = 12; // how far above the question a box border is looked for
+const MAX_CONTEXT_CHARS = 2000;
+const SCREEN_LINES = PROMPT_WINDOW_LINES + CONTEXT_LINES;
+
+function policyFile(workspace: string): string {
+    return path.join(workspace, '.natsuki', 'permissions.json');
+}
+
+function toRegExp(source: unknown, file: string): RegExp | null {
+    if (typeof source !== 'string' || !source) return null;
+    try {
+        return new RegExp(source, 'i');
+    } catch (e) {
+        console.warn(`[Prompts] Ignoring invalid pattern in ${file}: ${source}`, e);
+        return null;
+    }
+}
+
+// Read on every prompt so edits apply without a restart; no file = escalate everything
+export function loadPromptPolicy(workspace: string): PromptPolicy {
+    const policy: PromptPolicy = { default: 'escalate', rules: [], prompts: BUILTIN_PROMPTS };
+    const file = policyFile(workspace);
+    if (!fs.existsSync(file)) return policy;
+
+    let raw: { default?: string, rules?: { match?: string, action?: string, prompt?: string }[], prompts?: { id?: string, match?: string, approve?: string, deny?: string }[] };
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (e) {
+        console.warn(`[Prompts] Ignoring unreadable ${file}:`, e);
+        return policy;
+    }
+
+    if (PROMPT_ACTIONS.includes(raw.default as PromptAction)) policy.default = raw.default as PromptAction;
+
+    (raw.rules || []).forEach(r => {
+        const match = toRegExp(r?.match, file);
+        if (!match) return;
+        if (!PROMPT_ACTIONS.includes(r.action as PromptAction)) {
+            console.warn(`[Prompts] Unknown action '${r.action}' in ${file}`);
+            return;
+        }
+        policy.rules.push({ match, action: r.action as PromptAction, prompt: r.prompt });
+    });
+
+    const custom = (raw.prompts || []).flatMap(p => {
+        const match = toRegExp(p?.match, file);
+        return match && p.id && p.approve !== undefined && p.deny !== undefined
+            ? [{ id: p.id, match, approveKeys: p.approve, denyKeys: p.deny }]
+            : [];
+    });
+    policy.prompts = [...BUILTIN_PROMPTS.filter(b => !custom.some(c => c.id === b.id)), ...custom];
+    return policy;
+}
+
+// Box tops and horizontal rules that start a prompt (Claude draws one above its question)
+const BLOCK_BORDER = /^\W*[╭┌╔─━═]{3,}/;
+
+// A boxed prompt's side borders, so patterns can anchor at the line's text
+const BOX_SIDES = /^[\s│┃║]+|[\s│┃║]+$/g;
+
+// Most restrictive first: a command matching both a deny and an approve rule is denied
+const RULE_PRECEDENCE: PromptAction[] = ['deny', 'escalate', 'approve'];
+
+// Lines of the prompt ending at the question: back to a border if there is one close above, else the paragraph
+function promptBlock(lines: string[], questionIndex: number): string[] {
+    const start = Math.max(0, questionIndex - CONTEXT_LINES);
+    for (let i = questionIndex - 1; i >= start; i--) {
+        if (BLOCK_BORDER.test(lines[i])) return lines.slice(i + 1, questionIndex + 1);
+    }
+    let i = questionIndex;
+    while (i > start && lines[i - 1].trim()) i--;
+    return lines.slice(i, questionIndex + 1);
+}
+
+// A prompt waiting at the bottom of the screen (rendered lines, blank ones kept), if any
+export function detectPrompt(lines: string[], prompts: PermissionPrompt[]): DetectedPrompt | null {
+    const start = Math.max(0, lines.length - PROMPT_WINDOW_LINES);
+    for (let i = lines.length - 1; i >= start; i--) {
+        const line = lines[i].replace(BOX_SIDES, '');
+        const prompt = prompts.find(p => p.match.test(line));
+        if (!prompt) continue;
+        const context = promptBlock(lines, i).join('\n');
+        return { promptId: prompt.id, question: line, context: context.slice(-MAX_CONTEXT_CHARS) };
+    }
+    return null;
+}
+
+export function decidePrompt(detected: DetectedPrompt, policy: PromptPolicy): PromptDecision {
+    const applicable = policy.rules.filter(r => (!r.prompt || r.prompt === detected.promptId) && r.match.test(detected.context));
+    const rule = RULE_PRECEDENCE.map(action => applicable.find(r => r.action === action)).find(r => r);
+    const action = rule?.action ?? policy.default;
+    const prompt = policy.prompts.find(p => p.id === detected.promptId);
+    const keys = action === 'approve' ? prompt?.approveKeys : action === 'deny' ? prompt?.denyKeys : undefined;
+    return { ...detected, action, rule: rule ? rule.match.source : 'default', keys };
+}
+
+/**
+ * Watches one session for permission prompts. onPrompt fires once per prompt: the same
+ * prompt staying on screen (e.g. while the job is paused for the user) doesn't fire again
+ * until a check finds no prompt.
+ */
+export class PromptResponder {
+    private timer: NodeJS.Timeout | null = null;
+    private lastSeen: string | null = null;
+    private disposed = false;
+
+    private onData = ({ sessionId }: { sessionId: string }) => {
+        if (sessionId !== this.sessionId) return;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => this.check(), SETTLE_MS);
+    };
+
+    constructor(
+        readonly sessionId: string,
+        private getPrompts: () => PermissionPrompt[],
+        private onPrompt: (detected: DetectedPrompt) => void
+    ) {
+        builder.on('data', this.onData);
+    }
+
+    private async check() {
+        this.timer = null;
+        const lines = await getScreenLines(this.sessionId, SCREEN_LINES);
+        if (this.disposed) return;
+
+        const detected = detectPrompt(lines, this.getPrompts());
+        const signature = detected ? `${detected.promptId}\n${detected.context}` : null;
+        if (signature === this.lastSeen) return;
+        this.lastSeen = signature;
+        if (detected) this.onPrompt(detected);
+    }
+
+    dispose() {
+        this.disposed = true;
+        if (this.timer) clearTimeout(this.timer);
+        builder.off('data', this.onData);
+    }
+}
@@ -1,83 +1,72 @@
 import { BrowserWindow, ipcMain, IpcMainEvent, IpcMainInvokeEvent } from 'electron';
 import * as pty from 'node-pty';
 import os from 'os';
-import * as fs from 'fs';
 import { EventEmitter } from 'events';
 import { logEvent } from './log-service';
 import { randomUUID } from 'crypto';
+import { CompletionMonitor, CompletionDecision, DEFAULT_COMPLETION_PROFILE, WorkspaceWatcher } from './completion-detector';
+import type { AgentAdapter } from './agent-adapter';
+import { ScrollbackRecorder, ScrollbackIndexEntry, readScrollback, offsetAt, isSessionId } from './scrollback';
+import { TerminalNormalizer } from './terminal-normalizer';
 
-// Idle detection for Orchestrator
-let idleTimer: NodeJS.Timeout | null = null;
-let idleCallback: (() => void) | null = null;
-const IDLE_THRESHOLD_MS = 5000;
-
-function resetIdleTimer() {
-    if (idleTimer) clearTimeout(idleTimer);
-    if (idleCallback) {
-        idleTimer = setTimeout(() => {
-            console.log('[PTY] Idle detected');
-            if (idleCallback) idleCallback();
-        }, IDLE_THRESHOLD_MS);
-    }
-}
+export const builder = new EventEmitter();
 
-export function setIdleCallback(callback: (() => void) | null) {
-    idleCallback = callback;
-    if (!callback && idleTimer) {
-        clearTimeout(idleTimer);
-        idleTimer = null;
-    }
-}
+const RECENT_LOG_LINES = 50;
+const ATTACH_REPLAY_BYTES = 256 * 1024; // raw output a newly attached view is drawn from
 
-export const builder = new EventEmitter();
+// One row of the terminal tab list
+export interface TerminalSessionInfo {
+    sessionId: string;
+    cwd: string;
+    shell: string;
+    pid: number;
+    jobId: string | null; // job whose agent runs in it right now
+    lastJobId: string | null; // null = a plain shell no job has used
+    background: boolean; // spawned for a job rather than opened by the user
+    startedAt: number;
+    uptimeMs: number;
+    lastOutputTime: number;
+    active: boolean;
+}
 
 interface Session {
     pty: pty.IPty;
     cwd: string;
+    shell: string;
+    jobId: string | null; // set by the orchestrator while a job drives this session
+    lastJobId: string | null;
+    background: boolean;
     metrics: {
         pid: number;
         spawnTime: number;
         bytesReceived: number;
         lastOutputTime: number;
     };
-    logs: string[];
+    size: { cols: number, rows: number };
+    screen: TerminalNormalizer; // rendered output (what the user would see), for tails and diagnostics
+    scrollback: ScrollbackRecorder; // full raw output on disk
+    // Each session has its own completion monitor so concurrent jobs don't clobber each other
+    completion: CompletionMonitor | null;
+    workspace: WorkspaceWatcher | null; // file activity in cwd, set up on the first completion wait
 }
 
 class PtyManager {
     private sessions = new Map<string, Session>();
-    private claudePath: string | null = null;
     public activeSessionId: string | null = null;
 
-    constructor() {
-        this.resolveClaudePath();
-    }
-
-    private resolveClaudePath() {
-        if (os.platform() !== 'win32') {
-            this.claudePath = 'claude';
-            return;
-        }
-
-        const hardcodedPath = 'C:\\Users\\a713678\\AppData\\Roaming\\npm\\claude.cmd';
-        if (fs.existsSync(hardcodedPath)) {
-            this.claudePath = hardcodedPath;
-        } else {
-            this.claudePath = 'claude';
-        }
-        console.log('[PtyManager] Resolved Claude Path:', this.claudePath);
-    }
-
-    create(cwd: string): string {
+    // activate=false keeps background sessions (e.g. spawned for a job) from stealing the UI's active session
+    create(cwd: string, activate: boolean = true): string {
         const id = randomUUID();
         const shell = os.platform() === 'win32' ? 'powershell.exe' : 'bash';
         const targetCwd = cwd || os.homedir();
 
         console.log(`[PtyManager] Creating session ${id} in ${targetCwd}`);
 
+        const size = { cols: 80, rows: 30 };
         const ptyProcess = pty.spawn(shell, [], {
             name: 'xterm-color',
-            cols: 80,
-            rows: 30,
+            cols: size.cols,
+            rows: size.rows,
             cwd: targetCwd,
             env: process.env as any,
             useConpty: true
@@ -87,16 +76,24 @@ class PtyManager {
         const session: Session = {
             pty: ptyProcess,
             cwd: targetCwd,
+            shell,
+            jobId: null,
+            lastJobId: null,
+            background: !activate,
             metrics: {
                 pid: ptyProcess.pid,
                 spawnTime: Date.now(),
                 bytesReceived: 0,
                 lastOutputTime: 0
             },
-            logs: []
+            size,
+            screen: new TerminalNormalizer(size.cols, size.rows),
+            scrollback: new ScrollbackRecorder(id, targetCwd, shell),
+            completion: null,
+            workspace: null
         };
         this.sessions.set(id, session);
-        this.activeSessionId = id; // Track as active
+        if (activate) this.activeSessionId = id; // Track as active
 
         // --- Event Handlers ---
 
@@ -111,23 +108,23 @@ class PtyManager {
             session.metrics.bytesReceived += data.length;
             session.metrics.lastOutputTime = Date.now();
 
-            // Log buffer (keep last 50 lines)
-            const lines = data.split(/\r?\n/);
-            lines.forEach(l => {
-                if (l.trim()) session.logs.push(l);
-            });
-            if (session.logs.length > 50) session.logs = session.logs.slice(-50);
+            session.screen.write(data);
+            session.scrollback.append(data);
 
             // Emit safely with ID
             builder.emit('data', { sessionId: id, data });
 
-            // Reset idle timer for Orchestrator
-            resetIdleTimer();
+            // Completion detection for Orchestrator
+            session.completion?.feed(data);
         });
 
         ptyProcess.onExit(({ exitCode, signal }) => {
             console.log(`[PtyManager] Session ${id} exited (code ${exitCode})`);
             logEvent('pty-exit', { sessionId: id, exitCode, signal });
+            this.clearIdle(session);
+            session.workspace?.dispose();
+            session.scrollback.close(exitCode);
+            session.screen.dispose();
 
             builder.emit('exit', { sessionId: id, exitCode, signal });
             this.sessions.delete(id);
@@ -150,6 +147,9 @@ class PtyManager {
         if (session) {
             try {
                 session.pty.resize(cols, rows);
+                session.size = { cols, rows };
+                session.screen.resize(cols, rows);
+                builder.emit('resize', { sessionId: id, cols, rows });
             } catch (e) { console.error('Resize error:', e); }
         }
     }
@@ -158,30 +158,123 @@ class PtyManager {
         const session = this.sessions.get(id);
         if (session) {
             console.log(`[PtyManager] Killing session ${id}`);
+            this.clearIdle(session);
+            session.workspace?.dispose();
+            session.scrollback.close();
+            session.screen.dispose();
             session.pty.kill();
             this.sessions.delete(id);
         }
     }
 
-    // Explicitly spawn Claude in a session
-    spawnClaude(id: string) {
+    // Headless shutdown: nothing else will reap the job shells
+    killAll() {
+        Array.from(this.sessions.keys()).forEach(id => this.kill(id));
+    }
+
+    list(): TerminalSessionInfo[] {
+        const now = Date.now();
+        return Array.from(this.sessions.entries()).map(([id, s]) => ({
+            sessionId: id,
+            cwd: s.cwd,
+            shell: s.shell,
+            pid: s.metrics.pid,
+            jobId: s.jobId,
+            lastJobId: s.lastJobId,
+            background: s.background,
+            startedAt: s.metrics.spawnTime,
+            uptimeMs: now - s.metrics.spawnTime,
+            lastOutputTime: s.metrics.lastOutputTime,
+            active: id === this.activeSessionId
+        })).sort((a, b) => a.startedAt - b.startedAt);
+    }
+
+    setOwner(id: string, jobId: string | null) {
+        const session = this.sessions.get(id);
+        if (!session) return;
+        session.jobId = jobId;
+        if (jobId) session.lastJobId = jobId;
+    }
+
+    // Makes the session the UI's active one and returns its recent raw output to draw the view from
+    attach(id: string): string | null {
+        const session = this.sessions.get(id);
+        if (!session) return null;
+        this.activeSessionId = id;
+        const end = session.scrollback.length;
+        return readScrollback(id, Math.max(0, end - ATTACH_REPLAY_BYTES), end).text;
+    }
+
+    has(id: string): boolean {
+        return this.sessions.has(id);
+    }
+
+    getCwd(id: string): string | null {
+        return this.sessions.get(id)?.cwd ?? null;
+    }
+
+    getSize(id: string): { cols: number, rows: number } | null {
+        return this.sessions.get(id)?.size ?? null;
+    }
+
+    // Register (or clear with null) the completion callback of a single session.
+    // profile picks the detector set (see COMPLETION_PROFILES), e.g. 'claude' or 'shell'.
+    setIdleCallback(id: string, callback: ((decision: CompletionDecision) => void) | null, profile: string = DEFAULT_COMPLETION_PROFILE) {
+        const session = this.sessions.get(id);
+        if (!session) {
+            if (callback) console.warn(`[PtyManager] setIdleCallback failed: Session ${id} not found`);
+            return;
+        }
+        this.clearIdle(session);
+        if (!callback) return;
+        if (!session.workspace) session.workspace = new WorkspaceWatcher(session.cwd);
+        session.completion = new CompletionMonitor(session.workspace, profile, decision => {
+            console.log(`[PTY] Completion detected (session ${id}): ${decision.reason}`);
+            session.completion = null;
+            callback(decision);
+        });
+    }
+
+    private clearIdle(session: Session) {
+        session.completion?.dispose();
+        session.completion = null;
+    }
+
+    // Start a job's agent CLI in the session's shell
+    spawnAgent(id: string, agent: AgentAdapter) {
         const session = this.sessions.get(id);
         if (session) {
-            const cmd = this.claudePath || 'claude';
-            // Use call operator for PowerShell safety on Windows
-            const runCmd = os.platform() === 'win32' ? `& "${cmd}"` : cmd;
-            console.log(`[PtyManager] Spawning Claude in session ${id}: ${runCmd}`);
-            session.pty.write(`${runCmd}\r`);
+            console.log(`[PtyManager] Spawning ${agent.name} in session ${id}: ${agent.spawnCommand}`);
+            session.pty.write(`${agent.spawnCommand}\r`);
         } else {
-            console.warn(`[PtyManager] spawnClaude failed: Session ${id} not found`);
+            console.warn(`[PtyManager] spawnAgent failed: Session ${id} not found`);
         }
     }
 
-    // For diagnostics (getting logs of a specific or latest session)
-    getLogs(id?: string): string[] {
-        if (id) return this.sessions.get(id)?.logs || [];
-        const session = this.activeSessionId ? this.sessions.get(this.activeSessionId) : null;
-        return session?.logs || [];
+    // Sessions whose shell started in `cwd` (e.g. all sessions of a job worktree)
+    findSessionsByCwd(cwd: string): string[] {
+        return Array.from(this.sessions.entries()).filter(([, s]) => s.cwd === cwd).map(([id]) => id);
+    }
+
+    // Labels the session's current scrollback offset (null if the session is gone)
+    markScrollback(id: string, label: string): ScrollbackIndexEntry | null {
+        return this.sessions.get(id)?.scrollback.mark(label) ?? null;
+    }
+
+    // Last 50 rendered lines of a specific or the active session (waits for pending output to be parsed)
+    async getLogs(id?: string): Promise<string[]> {
+        const session = this.sessions.get(id || this.activeSessionId || '');
+        if (!session) return [];
+        await session.screen.flush();
+        return session.screen.tail(RECENT_LOG_LINES);
+    }
+
+    // Bottom of the rendered screen with its blank lines, e.g. to read a prompt the agent is waiting on
+    async getScreen(id: string, count: number): Promise<string[]> {
+        const session = this.sessions.get(id);
+        if (!session) return [];
+        await session.screen.flush();
+        return session.screen.screen(count);
     }
 
     getDiagnostics(id?: string) {
@@ -225,7 +318,7 @@ class PtyManager {
                 bytesReceived: session.metrics.bytesReceived,
                 lastOutputTime: session.metrics.lastOutputTime,
                 timeSinceLastOutput: session.metrics.lastOutputTime > 0 ? Date.now() - session.metrics.lastOutputTime : null,
-                recentLogs: [...session.logs]
+                recentLogs: session.screen.tail(RECENT_LOG_LINES)
             },
             timestamp: Date.now()
         };
@@ -252,6 +345,17 @@ export function setupPty(win: BrowserWindow) {
         return { sessionId: ptyManager.create(cwd) };
     });
 
+    // Every live session (tabs), with cwd, PID, owning job and uptime
+    ipcMain.handle('terminal-list', () => {
+        return ptyManager.list();
+    });
+
+    // A tab showing an existing session: output before this reply comes back in `output`, the rest as terminal-data
+    ipcMain.handle('terminal-attach', (_event: IpcMainInvokeEvent, { sessionId }: { sessionId: string }) => {
+        const output = ptyManager.attach(sessionId);
+        return output === null ? { success: false, error: `Session ${sessionId} not found` } : { success: true, output };
+    });
+
     ipcMain.on('terminal-input', (_event: IpcMainEvent, { sessionId, data }: { sessionId: string, data: string }) => {
         ptyManager.write(sessionId, data);
     });
@@ -264,6 +368,14 @@ export function setupPty(win: BrowserWindow) {
         ptyManager.kill(sessionId);
     });
 
+    // Raw output of a session (live or ended) between two timestamps, whole session by default
+    ipcMain.handle('terminal-scrollback', (_event: IpcMainInvokeEvent, { sessionId, since, until }: { sessionId: string, since?: number, until?: number }) => {
+        if (!isSessionId(sessionId)) return { text: '', truncated: false };
+        const start = since ? offsetAt(sessionId, since) : 0;
+        const end = until ? offsetAt(sessionId, until) : Number.MAX_SAFE_INTEGER;
+        return readScrollback(sessionId, start, end);
+    });
+
     ipcMain.handle('get-diagnostics', () => {
         return ptyManager.getDiagnostics();
     });
@@ -277,8 +389,23 @@ export function setupPty(win: BrowserWindow) {
 }
 
 // Export for Snapshot Engine
-export function getRecentLogs(): string[] {
-    return ptyManager.getLogs();
+export function getRecentLogs(sessionId?: string): Promise<string[]> {
+    return ptyManager.getLogs(sessionId);
+}
+
+// For the prompt responder
+export function getScreenLines(sessionId: string, count: number): Promise<string[]> {
+    return ptyManager.getScreen(sessionId, count);
+}
+
+// For the Snapshot Engine: labels where a snapshot's transcript ends
+export function markScrollback(sessionId: string, label: string) {
+    return ptyManager.markScrollback(sessionId, label);
+}
+
+// Helper for Orchestrator
+export function setIdleCallback(sessionId: string, callback: ((decision: CompletionDecision) => void) | null, profile?: string) {
+    ptyManager.setIdleCallback(sessionId, callback, profile);
 }
 
 // Helper for Orchestrator
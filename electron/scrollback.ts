@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Full scrollback of a PTY session on disk, under ~/.natsuki/sessions/<sessionId>/:
+ *
+ *   meta.json                     cwd, shell, start/end time, exit code
+ *   output-<startOffset>.log      raw output, rotated every SEGMENT_BYTES (oldest segments dropped)
+ *   index.jsonl                   { offset, at } about once a second of output, plus labelled marks
+ *
+ * Offsets count bytes from the start of the session and never restart, so a range
+ * (e.g. "everything since the previous snapshot") stays valid across rotations
+ * until its bytes are dropped.
+ */
+
+const SESSIONS_DIR = path.join(os.homedir(), '.natsuki', 'sessions');
+const SEGMENT_BYTES = 4 * 1024 * 1024;
+const MAX_SEGMENTS = 16; // 64 MB per session
+const MAX_SESSIONS = 50; // older session directories are pruned when a new session starts
+const INDEX_INTERVAL_MS = 1000;
+const SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i; // randomUUID(); ids also come from the renderer
+
+// Sessions recording in this process; never pruned
+const liveSessions = new Set<string>();
+
+export interface ScrollbackIndexEntry {
+    offset: number;
+    at: number;
+    mark?: string;
+}
+
+export interface ScrollbackMeta {
+    sessionId: string;
+    cwd: string;
+    shell: string;
+    startedAt: number;
+    endedAt?: number;
+    exitCode?: number;
+}
+
+// A byte range of one session's output, as stored in snapshot manifests
+export interface ScrollbackRange {
+    sessionId: string;
+    startOffset: number;
+    endOffset: number;
+    startedAt?: number;
+    endedAt: number;
+    cols?: number; // terminal size when the range ended, to render it as it was shown
+    rows?: number;
+}
+
+function sessionDir(sessionId: string): string {
+    return path.join(SESSIONS_DIR, sessionId);
+}
+
+function segmentName(startOffset: number): string {
+    return `output-${String(startOffset).padStart(12, '0')}.log`;
+}
+
+// Segments still on disk, oldest first
+function listSegments(sessionId: string): { file: string, start: number, size: number }[] {
+    const dir = sessionDir(sessionId);
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+        .map(f => /^output-(\d+)\.log$/.exec(f))
+        .filter((m): m is RegExpExecArray => !!m)
+        .map(m => {
+            const file = path.join(dir, m[0]);
+            return { file, start: Number(m[1]), size: fs.statSync(file).size };
+        })
+        .sort((a, b) => a.start - b.start);
+}
+
+export function isSessionId(sessionId: unknown): sessionId is string {
+    return typeof sessionId === 'string' && SESSION_ID.test(sessionId);
+}
+
+// Appending to a segment doesn't touch the directory's mtime, so a session is as recent as its newest file
+function lastWrite(dir: string): number {
+    return fs.readdirSync(dir).reduce((latest, f) => {
+        try {
+            return Math.max(latest, fs.statSync(path.join(dir, f)).mtimeMs);
+        } catch {
+            return latest;
+        }
+    }, fs.statSync(dir).mtimeMs);
+}
+
+function pruneOldSessions() {
+    if (!fs.existsSync(SESSIONS_DIR)) return;
+    const dirs = fs.readdirSync(SESSIONS_DIR, { withFileTypes: true })
+        .filter(e => e.isDirectory() && !liveSessions.has(e.name))
+        .map(e => ({ name: e.name, mtime: lastWrite(path.join(SESSIONS_DIR, e.name)) }))
+        .sort((a, b) => b.mtime - a.mtime);
+    dirs.slice(Math.max(0, MAX_SESSIONS - liveSessions.size)).forEach(d => fs.rmSync(path.join(SESSIONS_DIR, d.name), { recursive: true, force: true }));
+}
+
+/**
+ * Writes one session's output. Writes are synchronous so a range read right after
+ * mark() sees every byte before it. Disk errors disable the recorder, never the PTY.
+ */
+export class ScrollbackRecorder {
+    private dir: string;
+    private meta: ScrollbackMeta;
+    private segmentFd: number | null = null;
+    private segmentStart = 0;
+    private indexFd: number | null = null;
+    private offset = 0;
+    private lastIndexAt = 0;
+    private failed = false;
+
+    constructor(sessionId: string, cwd: string, shell: string) {
+        this.dir = sessionDir(sessionId);
+        this.meta = { sessionId, cwd, shell, startedAt: Date.now() };
+        this.guard(() => {
+            pruneOldSessions();
+            liveSessions.add(sessionId);
+            fs.mkdirSync(this.dir, { recursive: true });
+            this.writeMeta();
+            this.indexFd = fs.openSync(path.join(this.dir, 'index.jsonl'), 'a');
+            this.openSegment();
+            this.writeIndex({ offset: 0, at: this.meta.startedAt });
+        });
+    }
+
+    // Bytes written so far (the offset the next output starts at)
+    get length(): number {
+        return this.offset;
+    }
+
+    append(data: string) {
+        if (this.failed) return;
+        this.guard(() => {
+            const bytes = Buffer.from(data, 'utf-8');
+            if (this.offset - this.segmentStart + bytes.length > SEGMENT_BYTES && this.offset > this.segmentStart) {
+                this.rotate();
+            }
+            fs.writeSync(this.segmentFd!, bytes);
+            this.offset += bytes.length;
+
+            const now = Date.now();
+            if (now - this.lastIndexAt >= INDEX_INTERVAL_MS) this.writeIndex({ offset: this.offset, at: now });
+        });
+    }
+
+    // Labels the current position (e.g. 'snapshot:<jobId>:<snapshotId>') so it can be found later
+    mark(label: string): ScrollbackIndexEntry {
+        const entry = { offset: this.offset, at: Date.now(), mark: label };
+        if (!this.failed) this.guard(() => this.writeIndex(entry));
+        return entry;
+    }
+
+    close(exitCode?: number) {
+        liveSessions.delete(this.meta.sessionId);
+        if (this.failed) return;
+        this.guard(() => {
+            this.writeIndex({ offset: this.offset, at: Date.now() });
+            if (this.segmentFd !== null) fs.closeSync(this.segmentFd);
+            if (this.indexFd !== null) fs.closeSync(this.indexFd);
+            this.segmentFd = this.indexFd = null;
+            this.meta = { ...this.meta, endedAt: Date.now(), exitCode };
+            this.writeMeta();
+        });
+        this.failed = true; // closed: ignore late output
+    }
+
+    private openSegment() {
+        this.segmentStart = this.offset;
+        this.segmentFd = fs.openSync(path.join(this.dir, segmentName(this.offset)), 'a');
+    }
+
+    private rotate() {
+        fs.closeSync(this.segmentFd!);
+        this.openSegment();
+        const segments = listSegments(this.meta.sessionId);
+        segments.slice(0, Math.max(0, segments.length - MAX_SEGMENTS)).forEach(s => fs.rmSync(s.file, { force: true }));
+    }
+
+    private writeIndex(entry: ScrollbackIndexEntry) {
+        fs.writeSync(this.indexFd!, JSON.stringify(entry) + '\n');
+        this.lastIndexAt = entry.at;
+    }
+
+    private writeMeta() {
+        fs.writeFileSync(path.join(this.dir, 'meta.json'), JSON.stringify(this.meta, null, 2));
+    }
+
+    private guard(fn: () => void) {
+        try {
+            fn();
+        } catch (e) {
+            this.failed = true;
+            console.warn(`[Scrollback] Recording of session ${this.meta.sessionId} stopped:`, e);
+        }
+    }
+}
+
+export function readScrollbackIndex(sessionId: string): ScrollbackIndexEntry[] {
+    if (!isSessionId(sessionId)) return [];
+    const file = path.join(sessionDir(sessionId), 'index.jsonl');
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf-8').split('\n').flatMap(line => {
+        try {
+            return line.trim() ? [JSON.parse(line) as ScrollbackIndexEntry] : [];
+        } catch {
+            return []; // torn last line after a crash
+        }
+    });
+}
+
+// Latest mark whose label starts with one of the prefixes
+export function findLastMark(sessionId: string, prefixes: string[]): ScrollbackIndexEntry | undefined {
+    return readScrollbackIndex(sessionId)
+        .filter(e => e.mark && prefixes.some(p => e.mark!.startsWith(p)))
+        .pop();
+}
+
+// Offset of the output written around `timestamp` (the last index entry at or before it)
+export function offsetAt(sessionId: string, timestamp: number): number {
+    const before = readScrollbackIndex(sessionId).filter(e => e.at <= timestamp);
+    return before.length ? before[before.length - 1].offset : 0;
+}
+
+/**
+ * Raw output in [startOffset, endOffset). Bytes already rotated away are skipped;
+ * `truncated` says so. A range can start inside a multi-byte character, hence the lenient decode.
+ */
+export function readScrollback(sessionId: string, startOffset: number, endOffset: number): { text: string, truncated: boolean } {
+    if (!isSessionId(sessionId)) return { text: '', truncated: false };
+    const segments = listSegments(sessionId);
+    const chunks: Buffer[] = [];
+    const firstAvailable = segments.length ? segments[0].start : endOffset;
+
+    segments.forEach(seg => {
+        const from = Math.max(startOffset, seg.start);
+        const to = Math.min(endOffset, seg.start + seg.size);
+        if (to <= from) return;
+        const buf = Buffer.alloc(to - from);
+        const fd = fs.openSync(seg.file, 'r');
+        try {
+            fs.readSync(fd, buf, 0, buf.length, from - seg.start);
+        } finally {
+            fs.closeSync(fd);
+        }
+        chunks.push(buf);
+    });
+
+    return { text: Buffer.concat(chunks).toString('utf-8'), truncated: startOffset < firstAvailable };
+}
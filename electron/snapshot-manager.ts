@@ -2,8 +2,9 @@ import { BrowserWindow, ipcMain } from 'electron';
 import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs';
-import { spawn } from 'child_process';
-import { getRecentLogs } from './pty-manager';
+import { spawn, ChildProcess } from 'child_process';
+import { getRecentLogs, markScrollback, ptyManager } from './pty-manager';
+import { findLastMark, readScrollback, ScrollbackRange } from './scrollback';
 
 const SNAPSHOT_BASE_DIR = path.join(os.homedir(), '.natsuki', 'snapshots');
 const CONTRACT_BASE_DIR = path.join(os.homedir(), '.natsuki', 'contracts');
@@ -23,7 +24,7 @@ interface Premises {
     fidelity: 'prototype' | 'mvp' | 'production';
 }
 
-interface Contract {
+export interface Contract {
     id: string;
     premises?: Premises;
     levels: ContractLevels;
@@ -38,32 +39,89 @@ const VERIFY_PROFILES: Record<string, string> = {
     'test': 'npm test',
 };
 
+export const VERIFY_PROFILE_NAMES = Object.keys(VERIFY_PROFILES);
+
+// One step of a job's verify pipeline (run in order)
+export interface VerifyStep {
+    profile: string;
+    continueOnError?: boolean; // default is fail-fast: remaining steps are skipped
+}
+
+export const DEFAULT_VERIFY_STEPS: VerifyStep[] = [{ profile: 'lint' }];
+
+export interface VerifyResult {
+    success: boolean;
+    exitCode: number;
+    stdoutTail: string;
+    stderrTail: string;
+    error?: string;
+}
+
+export interface VerifyStepResult extends VerifyResult {
+    profile: string;
+    skipped: boolean;
+    durationMs: number;
+}
+
+export function skippedStep(profile: string): VerifyStepResult {
+    return { profile, skipped: true, durationMs: 0, success: false, exitCode: -1, stdoutTail: '', stderrTail: '', error: 'Skipped (an earlier step failed)' };
+}
+
 async function ensureDir(dir: string) {
     if (!fs.existsSync(dir)) {
         await fs.promises.mkdir(dir, { recursive: true });
     }
 }
 
-async function runCommand(cmd: string, args: string[], cwd: string): Promise<{ exitCode: number, stdout: string, stderr: string }> {
+// Kills the whole process tree (shell: true means the real command is a grandchild)
+export function killTree(child: ChildProcess) {
+    if (!child.pid || child.exitCode !== null) return;
+    try {
+        if (os.platform() === 'win32') {
+            spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+        } else {
+            process.kill(-child.pid, 'SIGTERM');
+        }
+    } catch (e) {
+        console.warn('[Verify] Failed to kill process tree:', e);
+        child.kill();
+    }
+}
+
+async function runCommand(cmd: string, args: string[], cwd: string, signal?: AbortSignal): Promise<{ exitCode: number, stdout: string, stderr: string }> {
     return new Promise((resolve) => {
+        if (signal?.aborted) {
+            resolve({ exitCode: -1, stdout: '', stderr: 'Aborted' });
+            return;
+        }
+
         // use shell: true to handle 'npm' on windows
-        const child = spawn(cmd, args, { cwd, shell: true });
+        // detached (POSIX) puts the child in its own process group so killTree can reach npm's children
+        const child = spawn(cmd, args, { cwd, shell: true, detached: os.platform() !== 'win32' });
 
         let stdout = '';
         let stderr = '';
 
+        const onAbort = () => {
+            console.log(`[Verify] Aborting '${cmd} ${args.join(' ')}'`);
+            killTree(child);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
         child.stdout.on('data', (d) => { stdout += d.toString(); });
         child.stderr.on('data', (d) => { stderr += d.toString(); });
 
         child.on('close', (code) => {
+            signal?.removeEventListener('abort', onAbort);
             resolve({
                 exitCode: code ?? -1,
                 stdout,
-                stderr
+                stderr: signal?.aborted ? stderr + '\nAborted' : stderr
             });
         });
 
         child.on('error', (err) => {
+            signal?.removeEventListener('abort', onAbort);
             resolve({
                 exitCode: -1,
                 stdout: '',
@@ -74,7 +132,7 @@ async function runCommand(cmd: string, args: string[], cwd: string): Promise<{ e
 }
 
 // Internal function for Orchestrator
-export async function runVerify(cwd: string, completionProfile: string): Promise<{ success: boolean, exitCode: number, stdoutTail: string, stderrTail: string, error?: string }> {
+export async function runVerify(cwd: string, completionProfile: string, signal?: AbortSignal): Promise<VerifyResult> {
     const commandStr = VERIFY_PROFILES[completionProfile];
     if (!commandStr) {
         return { success: false, exitCode: -1, stdoutTail: '', stderrTail: '', error: `Profile '${completionProfile}' not allowed/found.` };
@@ -94,7 +152,7 @@ export async function runVerify(cwd: string, completionProfile: string): Promise
     console.log(`[Verify] Running ${commandStr} in ${cwd}`);
 
     const [cmd, ...args] = commandStr.split(' ');
-    const { exitCode, stdout, stderr } = await runCommand(cmd, args, cwd);
+    const { exitCode, stdout, stderr } = await runCommand(cmd, args, cwd, signal);
 
     // Populate error if failed
     const stderrTail = stderr.slice(-2000);
@@ -113,8 +171,15 @@ export async function runVerify(cwd: string, completionProfile: string): Promise
     };
 }
 
+// createSnapshot's ids (ISO time, ':' and '.' replaced); anything else never reaches a path
+const SNAPSHOT_ID = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+export function isSnapshotId(snapshotId: unknown): snapshotId is string {
+    return typeof snapshotId === 'string' && SNAPSHOT_ID.test(snapshotId);
+}
+
 // Internal function for Orchestrator
-export async function createSnapshot(cwd: string, jobId: string, intent: string = ""): Promise<{ success: boolean, snapshotId?: string, summary?: any, error?: string }> {
+export async function createSnapshot(cwd: string, jobId: string, intent: string = "", sessionId?: string, verify: VerifyStepResult[] = []): Promise<{ success: boolean, snapshotId?: string, summary?: any, error?: string }> {
     try {
         const timestamp = new Date();
         const snapshotId = timestamp.toISOString().replace(/[:.]/g, '-');
@@ -146,11 +211,17 @@ export async function createSnapshot(cwd: string, jobId: string, intent: string
         const d = await runCommand('git', ['diff'], cwd);
         gitDiff = d.stdout;
 
-        // 3. Terminal Tail
-        const terminalLines = getRecentLogs();
+        // 3. Terminal Tail, plus the full-scrollback range since this job's previous snapshot (or its start)
+        const terminalLines = await getRecentLogs(sessionId);
+        let terminal: ScrollbackRange | undefined;
+        if (sessionId) {
+            const previous = findLastMark(sessionId, [`snapshot:${jobId}:`, `job-start:${jobId}`]);
+            const end = markScrollback(sessionId, `snapshot:${jobId}:${snapshotId}`);
+            if (end) terminal = { sessionId, startOffset: previous?.offset ?? 0, endOffset: end.offset, startedAt: previous?.at, endedAt: end.at, ...ptyManager.getSize(sessionId) };
+        }
 
         // Write payload files
-        const sources = {
+        const sources: Record<string, string> = {
             git_status: 'git_status.txt',
             git_diff: 'git_diff.patch',
             terminal_tail: 'terminal_tail.txt'
@@ -160,6 +231,12 @@ export async function createSnapshot(cwd: string, jobId: string, intent: string
         await fs.promises.writeFile(path.join(snapshotDir, sources.git_diff), gitDiff);
         await fs.promises.writeFile(path.join(snapshotDir, sources.terminal_tail), terminalLines.join('\n'));
 
+        // 4. Verify results (full step results incl. stdout/stderr tails, read by the reviewer)
+        if (verify.length) {
+            sources.verify = 'verify.json';
+            await fs.promises.writeFile(path.join(snapshotDir, sources.verify), JSON.stringify(verify, null, 2));
+        }
+
         // Manifest
         const manifest = {
             snapshot_id: snapshotId,
@@ -169,10 +246,15 @@ export async function createSnapshot(cwd: string, jobId: string, intent: string
             intent: intent, // Added Intent
             completeness: 'full', // Default to full for v0.1
             sources,
+            terminal,
             summary: {
                 dirty: gitStatus.trim().length > 0,
                 changed_files: gitStatus.split('\n').filter(l => l.trim()).length,
-                verifyExitCode: null as number | null
+                // First failing step's exit code, 0 if all passed, null if nothing was verified
+                verifyExitCode: verify.length ? (verify.find(v => !v.skipped && !v.success)?.exitCode ?? 0) : null as number | null,
+                verifyPassed: verify.length ? verify.every(v => v.success) : null as boolean | null,
+                // Per-step outcome (tails are in verify.json)
+                verifySteps: verify.map(v => ({ profile: v.profile, success: v.success, exitCode: v.exitCode, skipped: v.skipped, durationMs: v.durationMs }))
             }
         };
 
@@ -192,6 +274,57 @@ export async function createSnapshot(cwd: string, jobId: string, intent: string
     }
 }
 
+// manifest.json of a snapshot (written by createSnapshot)
+export interface SnapshotManifest {
+    snapshot_id: string;
+    job_id: string;
+    workspace: string;
+    created_at: string;
+    intent: string;
+    completeness: string;
+    sources: Record<string, string>;
+    terminal?: ScrollbackRange; // absent on snapshots taken without a live session
+    summary: Record<string, unknown>;
+}
+
+export function getSnapshotDir(jobId: string, snapshotId: string): string {
+    return path.join(SNAPSHOT_BASE_DIR, jobId, snapshotId);
+}
+
+// Manifests of a job's snapshots, newest first (unreadable ones are skipped)
+export async function listSnapshots(jobId: string): Promise<SnapshotManifest[]> {
+    const jobDir = path.join(SNAPSHOT_BASE_DIR, jobId);
+    if (!fs.existsSync(jobDir)) return [];
+
+    const entries = await fs.promises.readdir(jobDir, { withFileTypes: true });
+    const manifests = await Promise.all(entries.filter(e => e.isDirectory()).map(async e => {
+        try {
+            return JSON.parse(await fs.promises.readFile(path.join(jobDir, e.name, 'manifest.json'), 'utf-8')) as SnapshotManifest;
+        } catch {
+            return null;
+        }
+    }));
+    return manifests.filter((m): m is SnapshotManifest => !!m).sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * The agent's output the snapshot covers: its scrollback range (raw, with escape codes),
+ * or terminal_tail.txt for snapshots without one. truncated = the start was rotated away.
+ */
+export async function readSnapshotTranscript(jobId: string, snapshotId: string): Promise<{ text: string, truncated: boolean, range?: ScrollbackRange }> {
+    if (!isSnapshotId(snapshotId)) throw new Error(`Invalid snapshot id: ${snapshotId}`);
+    const dir = path.join(SNAPSHOT_BASE_DIR, jobId, snapshotId);
+    const manifest: SnapshotManifest = JSON.parse(await fs.promises.readFile(path.join(dir, 'manifest.json'), 'utf-8'));
+    const range = manifest.terminal;
+    if (range) {
+        const { text, truncated } = readScrollback(range.sessionId, range.startOffset, range.endOffset);
+        // Session files can be pruned long before the snapshot; the tail is better than nothing
+        if (text || range.endOffset === range.startOffset) return { text, truncated, range };
+    }
+    const tail = await fs.promises.readFile(path.join(dir, manifest.sources?.terminal_tail || 'terminal_tail.txt'), 'utf-8').catch(() => '');
+    return { text: tail, truncated: true, range };
+}
+
 // Contract Management
 export async function saveContract(jobId: string, contract: Contract): Promise<{ success: boolean, error?: string }> {
     try {
@@ -225,6 +358,10 @@ export async function loadContract(jobId: string): Promise<Contract | null> {
 }
 
 export function setupSnapshotHandlers(win: BrowserWindow) {
+    ipcMain.handle('verify-profiles', () => {
+        return VERIFY_PROFILE_NAMES;
+    });
+
     // T4: VerifyRunner
     ipcMain.handle('verify-run', async (_event, { cwd, jobId, profile }: { cwd: string, jobId: string, profile: string }) => {
         return await runVerify(cwd, profile);
@@ -235,6 +372,14 @@ export function setupSnapshotHandlers(win: BrowserWindow) {
         return await createSnapshot(cwd, jobId);
     });
 
+    ipcMain.handle('snapshot-transcript', async (_event, { jobId, snapshotId }: { jobId: string, snapshotId: string }) => {
+        try {
+            return { success: true, ...await readSnapshotTranscript(jobId, snapshotId) };
+        } catch (e) {
+            return { success: false, error: e instanceof Error ? e.message : String(e) };
+        }
+    });
+
     // Contract Management
     ipcMain.handle('contract-save', async (_event, { jobId, contract }: { jobId: string, contract: Contract }) => {
         return await saveContract(jobId, contract);
@@ -0,0 +1,196 @@
+import { ipcMain } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { jobManager, Job, JobBudget } from './job-manager';
+import { saveContract, Contract, VerifyStep, VERIFY_PROFILE_NAMES } from './snapshot-manager';
+import type { JobAgentConfig } from './agent-adapter';
+
+/**
+ * Job templates: reusable task recipes, one JSON file each, in ~/.natsuki/templates/ and
+ * <workspace>/.natsuki/templates/ (a workspace template replaces a user one with the same id).
+ * The file name is the id, e.g. add-endpoint.json:
+ *
+ *   { "name": "Add endpoint",
+ *     "title": "Add {{method}} {{path}}",
+ *     "prompt": "Add a {{method}} {{path}} endpoint to {{module}}. Cover it with tests.",
+ *     "variables": [{ "name": "method", "default": "GET" }, { "name": "path" }, { "name": "module" }],
+ *     "verifySteps": [{ "profile": "lint" }, { "profile": "test" }],
+ *     "reviewer": "anthropic", "budget": { "maxFixIterations": 3 },
+ *     "contract": { "levels": { "minimum": ["{{path}} responds"], "middle": ["tests cover {{path}}"], "maximum": [] } } }
+ *
+ * {{placeholders}} that aren't declared in variables are required variables too.
+ */
+
+const USER_TEMPLATE_DIR = path.join(os.homedir(), '.natsuki', 'templates');
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export interface TemplateVariable {
+    name: string;
+    label?: string;
+    default?: string; // no default = required
+    multiline?: boolean;
+}
+
+export interface JobTemplate {
+    id: string;
+    name: string;
+    description?: string; // what the template is for (shown in the picker)
+    title?: string; // job description shown in the list; the first prompt line when unset
+    prompt: string; // sent to the agent as-is, after variable substitution
+    variables: TemplateVariable[];
+    verifySteps?: VerifyStep[];
+    reviewer?: string;
+    budget?: JobBudget;
+    agent?: JobAgentConfig;
+    useWorktree?: boolean;
+    contract?: Omit<Contract, 'id'>;
+    source: 'user' | 'workspace';
+}
+
+// What the panel would have used for a plain job; the template's own settings win
+export interface TemplateJobDefaults {
+    verifySteps?: VerifyStep[];
+    budget?: JobBudget;
+    agent?: JobAgentConfig;
+    useWorktree?: boolean;
+}
+
+function workspaceTemplateDir(workspace: string): string {
+    return path.join(workspace, '.natsuki', 'templates');
+}
+
+function placeholdersIn(text: string): string[] {
+    return [...text.matchAll(PLACEHOLDER)].map(m => m[1]);
+}
+
+function contractTexts(contract?: Omit<Contract, 'id'>): string[] {
+    if (!contract) return [];
+    const { minimum = [], middle = [], maximum = [] } = contract.levels || {};
+    return [...minimum, ...middle, ...maximum, ...Object.values(contract.requirements || {})];
+}
+
+function readTemplate(file: string, source: JobTemplate['source']): JobTemplate | null {
+    let raw: Partial<JobTemplate>;
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (e) {
+        console.warn(`[Templates] Ignoring unreadable ${file}:`, e);
+        return null;
+    }
+    if (typeof raw.prompt !== 'string' || !raw.prompt.trim()) {
+        console.warn(`[Templates] Ignoring ${file}: no prompt`);
+        return null;
+    }
+
+    const id = path.basename(file, '.json');
+    const declared = (raw.variables || []).filter(v => typeof v?.name === 'string');
+    const used = [raw.title || '', raw.prompt, ...contractTexts(raw.contract)].flatMap(placeholdersIn);
+    const undeclared = [...new Set(used)].filter(name => !declared.some(v => v.name === name));
+
+    const unknownSteps = (raw.verifySteps || []).filter(s => !VERIFY_PROFILE_NAMES.includes(s.profile));
+    if (unknownSteps.length) console.warn(`[Templates] ${id}: unknown verify profiles ${unknownSteps.map(s => s.profile).join(', ')}`);
+
+    return {
+        ...raw,
+        id,
+        name: raw.name || id,
+        prompt: raw.prompt,
+        variables: [...declared, ...undeclared.map(name => ({ name }))],
+        verifySteps: raw.verifySteps?.filter(s => VERIFY_PROFILE_NAMES.includes(s.profile)),
+        source
+    };
+}
+
+function readTemplateDir(dir: string, source: JobTemplate['source']): JobTemplate[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+        .filter(f => f.endsWith('.json'))
+        .map(f => readTemplate(path.join(dir, f), source))
+        .filter((t): t is JobTemplate => !!t);
+}
+
+// Read on every call so edited files show up without a restart
+export function listTemplates(workspace?: string): JobTemplate[] {
+    const byId = new Map<string, JobTemplate>();
+    readTemplateDir(USER_TEMPLATE_DIR, 'user').forEach(t => byId.set(t.id, t));
+    if (workspace) readTemplateDir(workspaceTemplateDir(workspace), 'workspace').forEach(t => byId.set(t.id, t));
+    return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getTemplate(id: string, workspace?: string): JobTemplate | undefined {
+    return listTemplates(workspace).find(t => t.id === id);
+}
+
+// Throws when a variable without a default has no value
+export function resolveVariables(template: JobTemplate, values: Record<string, string>): Record<string, string> {
+    const resolved: Record<string, string> = {};
+    const missing: string[] = [];
+    template.variables.forEach(v => {
+        const value = values[v.name]?.trim() ? values[v.name] : v.default;
+        if (value === undefined || !value.trim()) missing.push(v.label || v.name);
+        else resolved[v.name] = value;
+    });
+    if (missing.length) throw new Error(`Missing template values: ${missing.join(', ')}`);
+    return resolved;
+}
+
+export function renderTemplate(text: string, values: Record<string, string>): string {
+    return text.replace(PLACEHOLDER, (whole, name: string) => values[name] ?? whole);
+}
+
+export async function createJobFromTemplate(
+    templateId: string,
+    values: Record<string, string>,
+    workspace?: string,
+    defaults: TemplateJobDefaults = {}
+): Promise<{ success: boolean, job?: Job, error?: string }> {
+    const template = getTemplate(templateId, workspace);
+    if (!template) return { success: false, error: `Template not found: ${templateId}` };
+
+    let resolved: Record<string, string>;
+    try {
+        resolved = resolveVariables(template, values);
+    } catch (e) {
+        return { success: false, error: e instanceof Error ? e.message : String(e) };
+    }
+
+    const prompt = renderTemplate(template.prompt, resolved);
+    const title = template.title ? renderTemplate(template.title, resolved) : prompt.split('\n')[0];
+
+    const job = jobManager.createJob(title, undefined, workspace, {
+        verifySteps: template.verifySteps ?? defaults.verifySteps,
+        budget: { ...defaults.budget, ...template.budget },
+        agent: template.agent ?? defaults.agent,
+        useWorktree: template.useWorktree ?? defaults.useWorktree,
+        prompt,
+        templateId: template.id,
+        reviewer: template.reviewer
+    });
+
+    if (template.contract?.levels) {
+        const render = (items: string[] = []) => items.map(item => renderTemplate(item, resolved));
+        const { levels, requirements } = template.contract;
+        const contractRes = await saveContract(job.id, {
+            ...template.contract,
+            id: `template-${template.id}-${job.id}`,
+            levels: { minimum: render(levels.minimum), middle: render(levels.middle), maximum: render(levels.maximum) },
+            requirements: requirements && Object.fromEntries(Object.entries(requirements).map(([k, v]) => [k, renderTemplate(v, resolved)]))
+        });
+        if (!contractRes.success) console.warn(`[Templates] Contract for ${job.id} not saved:`, contractRes.error);
+    }
+
+    console.log(`[Templates] Created ${job.id} from ${template.id}`);
+    return { success: true, job };
+}
+
+export function setupTemplateHandlers() {
+    ipcMain.handle('template-list', (_, { cwd }: { cwd?: string } = {}) => {
+        return listTemplates(cwd);
+    });
+
+    ipcMain.handle('template-create-job', (_, { templateId, values, cwd, defaults }: { templateId: string, values: Record<string, string>, cwd?: string, defaults?: TemplateJobDefaults }) => {
+        return createJobFromTemplate(templateId, values || {}, cwd, defaults);
+    });
+}
@@ -0,0 +1,86 @@
+import { Terminal, IBuffer } from 'xterm-headless';
+
+/**
+ * Renders raw PTY output the way a terminal would show it: colors dropped, carriage-return
+ * rewrites and spinner redraws collapsed to their final state, cursor-addressed TUIs
+ * flattened to their screen contents. Soft-wrapped rows are joined back into one line.
+ *
+ * PtyManager keeps one live TerminalNormalizer per session (snapshot tail, diagnostics);
+ * normalizeTerminalOutput() renders a stored range (review transcript) in one go.
+ */
+
+const LIVE_SCROLLBACK_LINES = 1000;
+const OFFLINE_SCROLLBACK_LINES = 20000;
+
+function createTerminal(cols: number, rows: number, scrollback: number): Terminal {
+    return new Terminal({ cols, rows, scrollback, allowProposedApi: true });
+}
+
+// Logical lines of a buffer, wrapped rows joined, trailing blanks dropped
+function bufferLines(buffer: IBuffer): string[] {
+    const lines: string[] = [];
+    for (let y = 0; y < buffer.length; y++) {
+        const line = buffer.getLine(y);
+        if (!line) continue;
+        const text = line.translateToString(true);
+        if (line.isWrapped && lines.length) lines[lines.length - 1] += text;
+        else lines.push(text);
+    }
+    while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+    return lines.map(l => l.trimEnd());
+}
+
+// Full-screen apps draw on the alternate buffer; what's on it is the most recent state
+function renderedLines(terminal: Terminal): string[] {
+    const lines = bufferLines(terminal.buffer.normal);
+    if (terminal.buffer.active.type === 'alternate') {
+        const screen = bufferLines(terminal.buffer.alternate);
+        if (screen.length) lines.push('', ...screen);
+    }
+    return lines;
+}
+
+export class TerminalNormalizer {
+    private terminal: Terminal;
+
+    constructor(cols: number, rows: number) {
+        this.terminal = createTerminal(cols, rows, LIVE_SCROLLBACK_LINES);
+    }
+
+    // Parsing is queued by xterm; read after flush() to include everything written so far
+    write(data: string) {
+        this.terminal.write(data);
+    }
+
+    flush(): Promise<void> {
+        return new Promise(resolve => this.terminal.write('', resolve));
+    }
+
+    resize(cols: number, rows: number) {
+        this.terminal.resize(cols, rows);
+    }
+
+    // Last `count` non-blank rendered lines
+    tail(count: number): string[] {
+        return renderedLines(this.terminal).filter(l => l.trim()).slice(-count);
+    }
+
+    // Last `count` rendered lines as laid out, blank lines kept (for reading prompts and boxes)
+    screen(count: number): string[] {
+        return renderedLines(this.terminal).slice(-count);
+    }
+
+    dispose() {
+        this.terminal.dispose();
+    }
+}
+
+export async function normalizeTerminalOutput(raw: string, cols = 80, rows = 30): Promise<string> {
+    const terminal = createTerminal(cols, rows, OFFLINE_SCROLLBACK_LINES);
+    try {
+        await new Promise<void>(resolve => terminal.write(raw, resolve));
+        return renderedLines(terminal).join('\n');
+    } finally {
+        terminal.dispose();
+    }
+}
@@ -1,22 +1,18 @@
-import { Orchestrator } from './orchestrator';
+import { Orchestrator, OrchestratorHost } from './orchestrator';
 import { jobManager } from './job-manager';
-import { EventEmitter } from 'events';
 
-// Mock dependencies
-const mockWin = {
-    webContents: {
-        send: (channel: string, data: any) => {
-            console.log(`[UI Event] ${channel}:`, JSON.stringify(data).slice(0, 100) + '...');
-        }
-    },
-    isDestroyed: () => false
-} as any;
+// Headless host: UI events just go to the console
+const host: OrchestratorHost = {
+    send: (channel: string, data: any) => {
+        console.log(`[UI Event] ${channel}:`, JSON.stringify(data).slice(0, 100) + '...');
+    }
+};
 
 async function runTest() {
     console.log("=== Starting Full Integration Test ===");
 
     // 1. Initialize Managers
-    const orchestrator = new Orchestrator(mockWin);
+    const orchestrator = new Orchestrator(host);
     console.log("1. Managers Initialized");
 
     // 2. Create a Job
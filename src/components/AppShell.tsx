@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { TerminalComponent } from './Terminal';
 import { FileListComponent } from './FileList';
 import { DiffPaneComponent } from './DiffPane';
@@ -21,6 +21,7 @@ export function AppShell() {
 
     // ✅ Phase2 Snapshot Engine wiring
     const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+    const [replayJobId, setReplayJobId] = useState<string | null>(null);
     const [isSnapshotting, setIsSnapshotting] = useState(false);
     const [isVerifying, setIsVerifying] = useState(false);
     const [lastSnapshotInfo, setLastSnapshotInfo] = useState<string>(''); // small UI hint
@@ -29,6 +30,14 @@ export function AppShell() {
     const [reviewHistory, setReviewHistory] = useState<ReviewHistoryItem[]>([]);
     const [showReviewPanel, setShowReviewPanel] = useState(false);
 
+    // A job paused on a permission prompt its workspace policy escalates: the answer is up to the user
+    useEffect(() => {
+        return window.electronAPI.on('job-attention', ({ jobId, question }: { jobId: string, question: string }) => {
+            setStatusMessage(`${jobId} is waiting for permission: ${question} (answer in its terminal tab, then resume)`);
+            if (document.hidden && 'Notification' in window) new Notification(`Natsuki: ${jobId} needs you`, { body: question });
+        });
+    }, []);
+
     const handleSelectWorkspace = async () => {
         const selectedPath = await window.electronAPI.invoke('select-folder');
         if (selectedPath) {
@@ -183,9 +192,15 @@ export function AppShell() {
 
         try {
             setStatusMessage('Creating Fix Job...');
-            const fixJob = await jobService.createFixJob(selectedJobId, result);
+            const { job: fixJob, autoStarted } = await jobService.createFixJob(selectedJobId, result);
 
-            if (fixJob?.id) {
+            if (fixJob?.id && autoStarted) {
+                // Fix chaining is on: the orchestrator already started it in the parent's session
+                setSelectedJobId(fixJob.id);
+                setActiveView('jobs');
+                setShowReviewPanel(false);
+                setStatusMessage(`Fix Job running: ${fixJob.id}`);
+            } else if (fixJob?.id) {
                 // 1. Select the new fix job
                 setSelectedJobId(fixJob.id);
 
@@ -358,6 +373,7 @@ export function AppShell() {
                                 cwd={cwd}
                                 selectedJobId={selectedJobId}
                                 onSelectJob={setSelectedJobId}
+                                onReplayJob={setReplayJobId}
                             />
                         )}
                         {activeView === 'research' && (
@@ -374,7 +390,7 @@ export function AppShell() {
 
             {/* Bottom: Terminal */}
             <div className="h-[40%] border-t border-[#3e3e42] bg-black">
-                <TerminalComponent cwd={cwd} />
+                <TerminalComponent cwd={cwd} replayJobId={replayJobId} onCloseReplay={() => setReplayJobId(null)} />
             </div>
 
             {/* Status Bar */}
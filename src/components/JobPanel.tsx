@@ -1,34 +1,63 @@
 import { useState, useEffect } from 'react';
-import { Play, Check, AlertCircle, Clock, Settings, Key, Trash2, X, Wrench, Bot, Search, Camera, MessageSquare, Loader2, PauseCircle } from 'lucide-react';
-import type { Job } from '../types';
+import { Play, Check, AlertCircle, Clock, Settings, Key, Trash2, X, Wrench, Bot, Search, Camera, MessageSquare, Loader2, PauseCircle, RotateCcw, Hourglass, ListPlus, Ban, Pause, History, GitBranch, GitMerge, Undo2, FileText, Film } from 'lucide-react';
+import { TemplatePanel } from './TemplatePanel';
+import type { ApiServerStatus, Job, JobAction, JobAgentConfig, JobBudget, JobStatus } from '../types';
 
 type Props = {
     cwd: string;
     selectedJobId: string | null;
     onSelectJob: (jobId: string) => void;
+    onReplayJob?: (jobId: string) => void; // opens the job's session recording in the terminal
 };
 
 const PROVIDERS = [
     { id: 'anthropic', name: 'Anthropic (Claude)' },
     { id: 'gemini', name: 'Google (Gemini)' },
     { id: 'openai', name: 'OpenAI (GPT-4)' },
-    { id: 'tiered', name: 'Auto (Tiered: Gemini -> Claude)' }
+    { id: 'tiered', name: 'Auto (Tiered: Gemini -> Claude)' },
+    { id: 'ensemble', name: 'Ensemble (parallel, consensus)' }
 ];
 
-export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
+// Providers an ensemble can be built from (tiered is already a combination)
+const ENSEMBLE_MEMBERS = PROVIDERS.filter(p => p.id !== 'tiered' && p.id !== 'ensemble');
+
+type EnsembleSettings = { providers: string[], policy: 'strictest' | 'majority' | 'weighted', weights: Record<string, number> };
+
+
+export function JobPanel({ cwd, selectedJobId, onSelectJob, onReplayJob }: Props) {
     const [jobs, setJobs] = useState<Job[]>([]);
     const [input, setInput] = useState('');
+    const [queueAfterPrevious, setQueueAfterPrevious] = useState(false);
+    const [useWorktree, setUseWorktree] = useState(localStorage.getItem('natsuki_use_worktree') === 'true');
+    const [verifyProfiles, setVerifyProfiles] = useState<string[]>([]);
+    const [agents, setAgents] = useState<{ id: string, name: string, needsCommand: boolean }[]>([]);
+    const [agentConfig, setAgentConfig] = useState<JobAgentConfig>(() => JSON.parse(localStorage.getItem('natsuki_agent') || '{"id":"claude"}'));
+    const [verifySelection, setVerifySelection] = useState<string[]>(() => JSON.parse(localStorage.getItem('natsuki_verify_steps') || '["lint"]'));
+    const [verifyFailFast, setVerifyFailFast] = useState(localStorage.getItem('natsuki_verify_fail_fast') !== 'false');
+    // Budget inputs as typed (blank = unlimited, fixes default to 2 on the backend)
+    const [budgetInput, setBudgetInput] = useState<{ fixes: string, minutes: string, usd: string }>(() => JSON.parse(localStorage.getItem('natsuki_budget') || '{"fixes":"","minutes":"","usd":""}'));
     const [showSettings, setShowSettings] = useState(false);
+    const [showTemplates, setShowTemplates] = useState(false);
+    const [jobActions, setJobActions] = useState<Record<JobStatus, JobAction[]> | null>(null);
 
     // Settings State
     const [provider, setProvider] = useState(localStorage.getItem('natsuki_provider') || 'anthropic');
     const [apiKeyInput, setApiKeyInput] = useState('');
     const [hasKey, setHasKey] = useState(false);
+    const [rollbackMode, setRollbackMode] = useState(localStorage.getItem('natsuki_rollback_mode') || 'off');
+    const [autoCommit, setAutoCommit] = useState(localStorage.getItem('natsuki_auto_commit') === 'true');
+    const [fixChain, setFixChain] = useState<{ autoStart: boolean, maxDepth: number }>(() => JSON.parse(localStorage.getItem('natsuki_fix_chain') || '{"autoStart":false,"maxDepth":3}'));
+    const [ensemble, setEnsemble] = useState<EnsembleSettings>(() => JSON.parse(localStorage.getItem('natsuki_ensemble') || '{"providers":["anthropic","gemini","openai"],"policy":"strictest","weights":{}}'));
+    const [apiServer, setApiServer] = useState<{ enabled: boolean, port: number }>(() => JSON.parse(localStorage.getItem('natsuki_api_server') || '{"enabled":false,"port":7317}'));
+    const [apiStatus, setApiStatus] = useState<ApiServerStatus | null>(null);
 
     // Load initial jobs or sync with backend
     useEffect(() => {
         // Fetch initial list
         window.electronAPI.invoke('job-list').then(setJobs).catch(console.error);
+        window.electronAPI.invoke('job-state-machine').then(sm => setJobActions(sm.actions)).catch(console.error);
+        window.electronAPI.invoke('verify-profiles').then(setVerifyProfiles).catch(console.error);
+        window.electronAPI.invoke('agent-list').then(setAgents).catch(console.error);
 
         const removeListener = window.electronAPI.on('job-update', (updatedJob: Job) => {
             setJobs(prev => {
@@ -45,6 +74,11 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
 
         // Sync initial provider
         window.electronAPI.invoke('set-card-provider', provider);
+        window.electronAPI.invoke('set-ensemble-config', ensemble);
+        window.electronAPI.invoke('orchestrator-set-fix-chain', fixChain);
+        window.electronAPI.invoke('orchestrator-set-auto-commit', { enabled: autoCommit });
+        window.electronAPI.invoke('orchestrator-set-rollback-mode', { mode: rollbackMode });
+        window.electronAPI.invoke('api-server-set', apiServer).then(setApiStatus).catch(console.error);
         checkKeyStatus(provider);
 
         return () => {
@@ -69,6 +103,56 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
         setApiKeyInput(''); // Clear input when switching
     };
 
+    const handleEnsembleChange = (next: EnsembleSettings) => {
+        setEnsemble(next);
+        localStorage.setItem('natsuki_ensemble', JSON.stringify(next));
+        window.electronAPI.invoke('set-ensemble-config', next);
+    };
+
+    const toggleEnsembleMember = (id: string, on: boolean) => {
+        const providers = on ? [...ensemble.providers, id] : ensemble.providers.filter(p => p !== id);
+        if (providers.length) handleEnsembleChange({ ...ensemble, providers });
+    };
+
+    const handleRollbackModeChange = (mode: string) => {
+        setRollbackMode(mode);
+        localStorage.setItem('natsuki_rollback_mode', mode);
+        window.electronAPI.invoke('orchestrator-set-rollback-mode', { mode });
+    };
+
+    const handleRollback = async (jobId: string) => {
+        if (!confirm('Roll back the files this job changed to their state before it started? Other files are kept.')) return;
+        try {
+            const res = await window.electronAPI.invoke('job-rollback', { jobId });
+            if (!res?.success) alert(`Rollback failed: ${res?.error ?? 'Unknown error'}`);
+        } catch (e) {
+            console.error('Failed to roll back job', e);
+        }
+    };
+
+    const handleAutoCommitChange = (enabled: boolean) => {
+        setAutoCommit(enabled);
+        localStorage.setItem('natsuki_auto_commit', String(enabled));
+        window.electronAPI.invoke('orchestrator-set-auto-commit', { enabled });
+    };
+
+    const handleFixChainChange = (next: { autoStart: boolean, maxDepth: number }) => {
+        setFixChain(next);
+        localStorage.setItem('natsuki_fix_chain', JSON.stringify(next));
+        window.electronAPI.invoke('orchestrator-set-fix-chain', next);
+    };
+
+    // Port edits are applied on blur, so the server isn't restarted per keystroke
+    const handleApiServerChange = async (next: { enabled: boolean, port: number }) => {
+        setApiServer(next);
+        localStorage.setItem('natsuki_api_server', JSON.stringify(next));
+        try {
+            setApiStatus(await window.electronAPI.invoke('api-server-set', next));
+        } catch (e) {
+            console.error('Failed to configure the local API', e);
+        }
+    };
+
     const handleSaveKey = async () => {
         if (!apiKeyInput.trim()) return;
         await window.electronAPI.invoke('key-set', provider, apiKeyInput.trim());
@@ -84,21 +168,64 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
         }
     };
 
+    const toggleVerifyProfile = (profile: string) => {
+        // Keep steps in the backend's profile order (lint before test etc.)
+        const next = verifySelection.includes(profile)
+            ? verifySelection.filter(p => p !== profile)
+            : verifyProfiles.filter(p => p === profile || verifySelection.includes(p));
+        setVerifySelection(next);
+        localStorage.setItem('natsuki_verify_steps', JSON.stringify(next));
+    };
+
+    const handleFailFastChange = (failFast: boolean) => {
+        setVerifyFailFast(failFast);
+        localStorage.setItem('natsuki_verify_fail_fast', String(failFast));
+    };
+
+    const handleAgentChange = (next: JobAgentConfig) => {
+        setAgentConfig(next);
+        localStorage.setItem('natsuki_agent', JSON.stringify(next));
+    };
+
+    const handleBudgetChange = (field: 'fixes' | 'minutes' | 'usd', value: string) => {
+        const next = { ...budgetInput, [field]: value };
+        setBudgetInput(next);
+        localStorage.setItem('natsuki_budget', JSON.stringify(next));
+    };
+
+    const buildBudget = (): JobBudget => {
+        const num = (v: string) => (v.trim() && Number(v) >= 0 ? Number(v) : undefined);
+        const budget: JobBudget = {};
+        const fixes = num(budgetInput.fixes);
+        const minutes = num(budgetInput.minutes);
+        const usd = num(budgetInput.usd);
+        if (fixes !== undefined) budget.maxFixIterations = Math.floor(fixes);
+        if (minutes !== undefined) budget.maxRuntimeMs = minutes * 60 * 1000;
+        if (usd !== undefined) budget.maxReviewCostUsd = usd;
+        return budget;
+    };
+
     const handleCreateJob = async () => {
         if (!input.trim()) return;
+        if (agents.find(a => a.id === agentConfig.id)?.needsCommand && !agentConfig.command?.trim()) {
+            alert('Enter the command that starts the agent');
+            return;
+        }
 
         try {
             // Call backend to create job (persisted + IPC notified)
             const newJob = await window.electronAPI.invoke('job-create', {
                 description: input,
-                cwd: cwd || undefined
+                cwd: cwd || undefined,
+                verifySteps: verifySelection.map(profile => ({ profile, continueOnError: !verifyFailFast })),
+                budget: buildBudget(),
+                useWorktree,
+                agent: agentConfig
             });
 
             if (newJob?.id) {
-                // Backend will notify via 'job-update', but we can optimistically add
-                setJobs(prev => [newJob, ...prev.filter(j => j.id !== newJob.id)]);
                 setInput('');
-                onSelectJob(newJob.id);
+                await addCreatedJob(newJob);
             }
         } catch (e) {
             console.error('Failed to create job:', e);
@@ -106,22 +233,123 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
         }
     };
 
+    const addCreatedJob = async (newJob: Job) => {
+        // Backend will notify via 'job-update', but we can optimistically add
+        setJobs(prev => [newJob, ...prev.filter(j => j.id !== newJob.id)]);
+        onSelectJob(newJob.id);
+
+        if (queueAfterPrevious) {
+            // Chain onto the newest job that hasn't finished yet (batch: feature -> test -> docs)
+            const previous = jobs.find(j => j.id !== newJob.id && !['completed', 'failed', 'cancelled', 'idle'].includes(j.status));
+            await handleQueueJob(newJob.id, previous ? [previous.id] : []);
+        }
+    };
+
+    // The template's verify steps, budget, agent and worktree choice win over the form's
+    const handleCreateFromTemplate = async (templateId: string, values: Record<string, string>): Promise<string | null> => {
+        try {
+            const res = await window.electronAPI.invoke('template-create-job', {
+                templateId,
+                values,
+                cwd: cwd || undefined,
+                defaults: {
+                    verifySteps: verifySelection.map(profile => ({ profile, continueOnError: !verifyFailFast })),
+                    budget: buildBudget(),
+                    useWorktree,
+                    agent: agentConfig
+                }
+            });
+            if (!res?.success || !res.job) return res?.error ?? 'Unknown error';
+            await addCreatedJob(res.job);
+            return null;
+        } catch (e) {
+            console.error('Failed to create job from template:', e);
+            return String(e);
+        }
+    };
+
+    const handleWorktreeChange = (enabled: boolean) => {
+        setUseWorktree(enabled);
+        localStorage.setItem('natsuki_use_worktree', String(enabled));
+    };
+
+    const handleMergeWorktree = async (jobId: string, mode: 'merge' | 'cherry-pick') => {
+        try {
+            const res = await window.electronAPI.invoke('job-worktree-merge', { jobId, mode });
+            if (!res?.success) alert(`Cannot ${mode}: ${res?.error ?? 'Unknown error'}`);
+        } catch (e) {
+            console.error(`Failed to ${mode} worktree`, e);
+        }
+    };
+
+    const handleRemoveWorktree = async (jobId: string) => {
+        if (!confirm('Remove this job\'s worktree and delete its branch?')) return;
+        try {
+            const res = await window.electronAPI.invoke('job-worktree-remove', { jobId, deleteBranch: true });
+            if (!res?.success) alert(`Cannot remove worktree: ${res?.error ?? 'Unknown error'}`);
+        } catch (e) {
+            console.error('Failed to remove worktree', e);
+        }
+    };
+
     const handleRunJob = async (jobId: string) => {
         const job = jobs.find(j => j.id === jobId);
         if (!job) return;
 
         onSelectJob(jobId);
+        if (!cwd) return alert("Select workspace first");
+
         setJobs(prev => prev.map(j => (j.id === jobId ? { ...j, status: 'running' } : j)));
 
-        if (!cwd) return alert("Select workspace first");
+        // A rejected start sends no job-update, so the optimistic 'running' is put back from the backend
+        const restoreJob = async () => {
+            const current: Job | null = await window.electronAPI.invoke('job-get', jobId).catch(() => null);
+            setJobs(prev => prev.map(j => (j.id === jobId ? current ?? job : j)));
+        };
 
         console.log(`Starting Job ${jobId} via Orchestrator`);
         try {
-            await window.electronAPI.invoke('orchestrator-start', { jobId, cwd });
+            const res = await window.electronAPI.invoke('orchestrator-start', { jobId, cwd });
+            if (!res?.success) {
+                alert('Failed to start job: ' + (res?.error ?? 'Unknown error'));
+                await restoreJob();
+            }
         } catch (e) {
             console.error("Failed to start job", e);
             alert("Failed to start orchestrator: " + e);
-            setJobs(prev => prev.map(j => (j.id === jobId ? { ...j, status: 'failed' } : j)));
+            await restoreJob();
+        }
+    };
+
+    const handleQueueJob = async (jobId: string, dependsOn: string[] = []) => {
+        if (!cwd) return alert("Select workspace first");
+        const res = await window.electronAPI.invoke('job-enqueue', { jobId, cwd, dependsOn });
+        if (!res?.success) alert('Failed to queue job: ' + (res?.error ?? 'Unknown error'));
+    };
+
+    const handleDequeueJob = async (jobId: string) => {
+        const res = await window.electronAPI.invoke('job-dequeue', { jobId });
+        if (!res?.success) alert('Failed to remove from queue: ' + (res?.error ?? 'Unknown error'));
+    };
+
+    const handleControl = async (jobId: string, action: 'pause' | 'resume' | 'cancel') => {
+        if (action === 'cancel' && !confirm('Cancel this job? The agent will be interrupted.')) return;
+        const res = await window.electronAPI.invoke(`orchestrator-${action}`, { jobId });
+        if (!res?.success) alert(`Cannot ${action}: ${res?.error ?? 'Unknown error'}`);
+    };
+
+    const interruptedJobs = jobs.filter(j => j.status === 'interrupted');
+
+    const canDo = (job: Job, action: JobAction) => !!jobActions?.[job.status]?.includes(action);
+
+    // Manual overrides (approve / fix / retry) handled by the Orchestrator
+    const handleProceed = async (jobId: string, action: 'approve' | 'fix' | 'retry') => {
+        try {
+            const res = await window.electronAPI.invoke('orchestrator-proceed', { jobId, action });
+            if (!res?.success) alert(`Cannot ${action}: ${res?.error ?? 'Unknown error'}`);
+        } catch (e) {
+            console.error(`Failed to ${action} job`, e);
+            alert(`Failed to ${action} job: ` + e);
         }
     };
 
@@ -146,7 +374,89 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
                         >
                             Add
                         </button>
+                        <button
+                            onClick={() => setShowTemplates(true)}
+                            className="px-2 py-1 bg-[#333] hover:bg-[#444] text-gray-300 text-xs rounded-sm"
+                            title="New job from template"
+                        >
+                            <FileText size={14} />
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-[11px] text-gray-400 mb-1">
+                        <span>Agent:</span>
+                        <select
+                            value={agentConfig.id}
+                            onChange={(e) => handleAgentChange({ ...agentConfig, id: e.target.value })}
+                            className="bg-[#252526] border border-[#333] px-1 focus:outline-none focus:border-blue-500"
+                        >
+                            {agents.map(a => (
+                                <option key={a.id} value={a.id}>{a.name}</option>
+                            ))}
+                        </select>
+                        {agents.find(a => a.id === agentConfig.id)?.needsCommand && (
+                            <input
+                                type="text"
+                                value={agentConfig.command || ''}
+                                onChange={(e) => handleAgentChange({ ...agentConfig, command: e.target.value })}
+                                placeholder="command, e.g. aider"
+                                className="flex-1 min-w-[120px] bg-[#252526] border border-[#333] px-1 focus:outline-none focus:border-blue-500"
+                            />
+                        )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-[11px] text-gray-400 mb-1">
+                        <span>Verify:</span>
+                        {verifyProfiles.map(profile => (
+                            <label key={profile} className="flex items-center gap-1 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={verifySelection.includes(profile)}
+                                    onChange={() => toggleVerifyProfile(profile)}
+                                />
+                                {profile}
+                            </label>
+                        ))}
+                        <label className="flex items-center gap-1 cursor-pointer" title="Skip remaining steps after the first failure">
+                            <input
+                                type="checkbox"
+                                checked={verifyFailFast}
+                                onChange={(e) => handleFailFastChange(e.target.checked)}
+                            />
+                            fail-fast
+                        </label>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-[11px] text-gray-400 mb-1" title="Blank = unlimited (fix rounds default to 2)">
+                        <span>Budget:</span>
+                        {([['fixes', 'fixes', '2'], ['minutes', 'min', '∞'], ['usd', '$ review', '∞']] as const).map(([field, label, placeholder]) => (
+                            <label key={field} className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={field === 'usd' ? 0.01 : 1}
+                                    value={budgetInput[field]}
+                                    onChange={(e) => handleBudgetChange(field, e.target.value)}
+                                    placeholder={placeholder}
+                                    className="w-12 bg-[#252526] border border-[#333] px-1 focus:outline-none focus:border-blue-500"
+                                />
+                                {label}
+                            </label>
+                        ))}
                     </div>
+                    <label className="flex items-center gap-1 text-[11px] text-gray-400 mb-1 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={queueAfterPrevious}
+                            onChange={(e) => setQueueAfterPrevious(e.target.checked)}
+                        />
+                        Queue after previous job
+                    </label>
+                    <label className="flex items-center gap-1 text-[11px] text-gray-400 mb-1 cursor-pointer" title="Run in a natsuki/<jobId> branch in its own git worktree">
+                        <input
+                            type="checkbox"
+                            checked={useWorktree}
+                            onChange={(e) => handleWorktreeChange(e.target.checked)}
+                        />
+                        Isolate in git worktree
+                    </label>
                     <div className="text-[11px] text-gray-500 font-mono truncate">
                         {cwd ? `cwd: ${cwd}` : 'cwd: (none)'} {selectedJobId ? `• selected: ${selectedJobId}` : ''}
                     </div>
@@ -160,6 +470,10 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
                 </button>
             </div>
 
+            {showTemplates && (
+                <TemplatePanel cwd={cwd} onClose={() => setShowTemplates(false)} onCreate={handleCreateFromTemplate} />
+            )}
+
             {/* Settings Overlay */}
             {showSettings && (
                 <div className="absolute inset-x-0 top-[85px] z-10 bg-[#252526] border-b border-[#333] p-4 shadow-xl">
@@ -186,6 +500,45 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
                             </select>
                         </div>
 
+                        {provider === 'ensemble' && (
+                            <div className="space-y-1 pl-2 border-l border-[#333]">
+                                {ENSEMBLE_MEMBERS.map(p => (
+                                    <label key={p.id} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={ensemble.providers.includes(p.id)}
+                                            onChange={(e) => toggleEnsembleMember(p.id, e.target.checked)}
+                                        />
+                                        {p.name}
+                                        {ensemble.policy === 'weighted' && ensemble.providers.includes(p.id) && (
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                step={0.5}
+                                                value={ensemble.weights[p.id] ?? 1}
+                                                onChange={(e) => handleEnsembleChange({ ...ensemble, weights: { ...ensemble.weights, [p.id]: Math.max(0, Number(e.target.value) || 0) } })}
+                                                className="w-12 ml-auto bg-[#1e1e1e] border border-[#333] px-1 rounded-sm focus:outline-none focus:border-blue-500"
+                                                title="Weight"
+                                            />
+                                        )}
+                                    </label>
+                                ))}
+                                <label className="flex items-center gap-2 text-xs text-gray-400">
+                                    Consensus
+                                    <select
+                                        value={ensemble.policy}
+                                        onChange={(e) => handleEnsembleChange({ ...ensemble, policy: e.target.value as EnsembleSettings['policy'] })}
+                                        className="bg-[#1e1e1e] border border-[#333] px-1 rounded-sm focus:outline-none focus:border-blue-500"
+                                    >
+                                        <option value="strictest">strictest decision wins</option>
+                                        <option value="majority">majority vote</option>
+                                        <option value="weighted">weighted</option>
+                                    </select>
+                                </label>
+                                <p className="text-[10px] text-gray-500">Each member uses its own API key (select it above to set one).</p>
+                            </div>
+                        )}
+
                         <div>
                             <label className="block text-xs text-gray-400 mb-1">
                                 API Key {hasKey ? <span className="text-green-500">(Set)</span> : <span className="text-red-500">(Missing)</span>}
@@ -217,6 +570,73 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
                             </div>
                         </div>
 
+                        <div className="pt-2 border-t border-[#333] space-y-1">
+                            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={autoCommit}
+                                    onChange={(e) => handleAutoCommitChange(e.target.checked)}
+                                />
+                                Commit approved jobs automatically
+                            </label>
+                            <label className="flex items-center gap-2 text-xs text-gray-400">
+                                Roll back edits on
+                                <select
+                                    value={rollbackMode}
+                                    onChange={(e) => handleRollbackModeChange(e.target.value)}
+                                    className="bg-[#1e1e1e] border border-[#333] px-1 rounded-sm focus:outline-none focus:border-blue-500"
+                                >
+                                    <option value="off">never (manual)</option>
+                                    <option value="block">review BLOCK</option>
+                                    <option value="failed">any failure</option>
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={fixChain.autoStart}
+                                    onChange={(e) => handleFixChainChange({ ...fixChain, autoStart: e.target.checked })}
+                                />
+                                Auto-start fix jobs (BLOCK → fix job → run)
+                            </label>
+                            <label className="flex items-center gap-2 text-xs text-gray-400">
+                                Max chain depth
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={fixChain.maxDepth}
+                                    onChange={(e) => handleFixChainChange({ ...fixChain, maxDepth: Math.max(1, Number(e.target.value) || 1) })}
+                                    className="w-12 bg-[#1e1e1e] border border-[#333] px-1 rounded-sm focus:outline-none focus:border-blue-500"
+                                />
+                            </label>
+                        </div>
+
+                        <div className="pt-2 border-t border-[#333] space-y-1">
+                            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={apiServer.enabled}
+                                    onChange={(e) => handleApiServerChange({ ...apiServer, enabled: e.target.checked })}
+                                />
+                                Local HTTP API on port
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={65535}
+                                    value={apiServer.port}
+                                    onChange={(e) => setApiServer({ ...apiServer, port: Number(e.target.value) || 0 })}
+                                    onBlur={() => handleApiServerChange(apiServer)}
+                                    className="w-16 bg-[#1e1e1e] border border-[#333] px-1 rounded-sm focus:outline-none focus:border-blue-500"
+                                />
+                            </label>
+                            {apiStatus?.running && (
+                                <div className="text-[10px] text-gray-500 break-all">
+                                    http://127.0.0.1:{apiStatus.port} · token in {apiStatus.tokenFile}
+                                </div>
+                            )}
+                            {apiStatus?.error && <div className="text-[10px] text-red-400">{apiStatus.error}</div>}
+                        </div>
+
                         <div className="text-[10px] text-gray-500 pt-2 border-t border-[#333]">
                             Keys are stored securely in OS Keychain (via safeStorage).
                         </div>
@@ -224,6 +644,21 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
                 </div>
             )}
 
+            {/* Recovery banner: jobs that were mid-run when the app quit */}
+            {interruptedJobs.length > 0 && (
+                <div className="mx-2 mt-2 p-2 border border-amber-700/60 bg-amber-900/20 rounded-sm text-[11px] text-amber-200 flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1">
+                        <History size={12} /> {interruptedJobs.length} job(s) were interrupted by a restart.
+                    </span>
+                    <button
+                        onClick={() => interruptedJobs.forEach(j => handleControl(j.id, 'resume'))}
+                        className="px-2 py-0.5 bg-amber-800/60 hover:bg-amber-700 rounded-sm shrink-0"
+                    >
+                        Resume all
+                    </button>
+                </div>
+            )}
+
             {/* Job List */}
             <div className="flex-1 overflow-auto p-2 space-y-2">
                 {jobs.length === 0 && (
@@ -260,20 +695,159 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
                             {/* Progress bar for active jobs */}
                             <JobProgress status={job.status} />
 
+                            <BudgetSummary job={job} />
+
                             {/* Error description for failed jobs */}
-                            {job.status === 'failed' && job.description && (
+                            {(job.status === 'failed' || job.status === 'cancelled' || job.status === 'interrupted') && job.description && (
                                 <div className="text-[10px] text-red-400/80 mt-1 line-clamp-1">
                                     {job.logSummary || 'Job failed'}
                                 </div>
                             )}
+                            {/* Why it's paused (e.g. a permission prompt waiting for an answer in its terminal tab) */}
+                            {job.status === 'paused' && job.logSummary && (
+                                <div className="text-[10px] text-amber-400/80 mt-1 line-clamp-2" title={job.logSummary}>
+                                    {job.logSummary}
+                                </div>
+                            )}
 
                             <div className="flex justify-between items-center mt-2">
                                 <span className="text-[10px] text-gray-500">
                                     {new Date(job.createdAt).toLocaleTimeString()}
+                                    {job.agent && job.agent.id !== 'claude' ? ` • ${job.agent.command || job.agent.id}` : ''}
                                     {job.autoFixCount ? ` • Fix #${job.autoFixCount}` : ''}
+                                    {job.verifySteps?.length ? ` • verify: ${job.verifySteps.map(v => v.profile).join(' → ')}` : ''}
+                                    {job.status === 'queued' && job.dependsOn?.length ? ` • after ${job.dependsOn.join(', ')}` : ''}
+                                    {job.parentJobId ? ` • fix of ${job.parentJobId} (depth ${job.chainDepth ?? 1})` : ''}
+                                    {job.childJobIds?.length ? ` • fix jobs: ${job.childJobIds.join(', ')}` : ''}
+                                    {job.commitSha ? ` • commit ${job.commitSha.slice(0, 7)}` : ''}
+                                    {job.worktree ? ` • ${job.worktree.branch}${job.worktree.merged ? ` (${job.worktree.merged}d)` : ''}` : ''}
                                 </span>
 
-                                {!['running', 'fixing', 'verifying', 'snapshotting', 'reviewing'].includes(job.status) && (
+                                {job.worktree && job.status === 'completed' && !job.worktree.merged && (
+                                    <div className="flex gap-1">
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleMergeWorktree(job.id, 'merge'); }}
+                                            className="flex items-center gap-1 text-xs bg-green-900/50 hover:bg-green-900 text-green-200 px-2 py-0.5 rounded-sm"
+                                            title={`Merge ${job.worktree.branch} into your checkout`}
+                                        >
+                                            <GitMerge size={10} /> Merge
+                                        </button>
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleMergeWorktree(job.id, 'cherry-pick'); }}
+                                            className="flex items-center gap-1 text-xs bg-[#333] hover:bg-[#444] px-2 py-0.5 rounded-sm"
+                                            title={`Cherry-pick the commits of ${job.worktree.branch}`}
+                                        >
+                                            <GitBranch size={10} /> Pick
+                                        </button>
+                                    </div>
+                                )}
+                                {job.baseline && !job.baseline.rolledBackAt && ['failed', 'cancelled', 'waiting_approval', 'interrupted'].includes(job.status) && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleRollback(job.id); }}
+                                        className="flex items-center gap-1 text-xs bg-red-900/50 hover:bg-red-900 text-red-200 px-2 py-0.5 rounded-sm"
+                                        title="Undo this job's edits (keeps your other changes)"
+                                    >
+                                        <Undo2 size={10} /> Rollback
+                                    </button>
+                                )}
+                                {job.worktree && (job.worktree.merged || job.status === 'failed' || job.status === 'cancelled') && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleRemoveWorktree(job.id); }}
+                                        className="flex items-center gap-1 text-xs bg-[#333] hover:bg-[#444] px-2 py-0.5 rounded-sm"
+                                        title={`Remove ${job.worktree.path}`}
+                                    >
+                                        <Trash2 size={10} /> Worktree
+                                    </button>
+                                )}
+                                {onReplayJob && job.sessionId && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onReplayJob(job.id); }}
+                                        className="flex items-center gap-1 text-xs bg-[#333] hover:bg-[#444] px-2 py-0.5 rounded-sm"
+                                        title="Watch what the agent did in this job"
+                                    >
+                                        <Film size={10} /> Replay
+                                    </button>
+                                )}
+
+                                {canDo(job, 'retry') && (
+                                    <div className="flex gap-1">
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleProceed(job.id, 'approve'); }}
+                                            disabled={!canDo(job, 'approve') || (job.status === 'failed' && job.reviewResult?.decision !== 'IMPROVE')}
+                                            className="disabled:opacity-30 disabled:cursor-not-allowed flex items-center gap-1 text-xs bg-green-900/50 hover:bg-green-900 text-green-200 px-2 py-0.5 rounded-sm"
+                                            title="Approve and mark as done"
+                                        >
+                                            <Check size={10} /> Approve
+                                        </button>
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleProceed(job.id, 'fix'); }}
+                                            disabled={!canDo(job, 'fix') || !job.reviewResult}
+                                            className="disabled:opacity-30 disabled:cursor-not-allowed flex items-center gap-1 text-xs bg-orange-900/50 hover:bg-orange-900 text-orange-200 px-2 py-0.5 rounded-sm"
+                                            title="Send the latest review feedback to Claude"
+                                        >
+                                            <Wrench size={10} /> Fix
+                                        </button>
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleProceed(job.id, 'retry'); }}
+                                            className="flex items-center gap-1 text-xs bg-[#333] hover:bg-[#444] px-2 py-0.5 rounded-sm"
+                                            title="Re-run verify, snapshot and review"
+                                        >
+                                            <RotateCcw size={10} /> Re-check
+                                        </button>
+                                    </div>
+                                )}
+
+                                {canDo(job, 'pause') && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleControl(job.id, 'pause'); }}
+                                        className="flex items-center gap-1 text-xs bg-[#333] hover:bg-[#444] px-2 py-0.5 rounded-sm"
+                                        title="Stop auto-advancing (the agent keeps its terminal)"
+                                    >
+                                        <Pause size={10} /> Pause
+                                    </button>
+                                )}
+                                {canDo(job, 'resume') && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleControl(job.id, 'resume'); }}
+                                        className="flex items-center gap-1 text-xs bg-[#333] hover:bg-[#444] px-2 py-0.5 rounded-sm"
+                                        title={job.resumePhase ? `Resume from ${job.resumePhase}` : 'Resume'}
+                                    >
+                                        <Play size={10} /> Resume
+                                    </button>
+                                )}
+                                {canDo(job, 'cancel') && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleControl(job.id, 'cancel'); }}
+                                        className="flex items-center gap-1 text-xs bg-red-900/50 hover:bg-red-900 text-red-200 px-2 py-0.5 rounded-sm"
+                                        title="Interrupt the agent and stop this job"
+                                    >
+                                        <Ban size={10} /> Cancel
+                                    </button>
+                                )}
+                                {canDo(job, 'queue') && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleQueueJob(job.id);
+                                        }}
+                                        className="flex items-center gap-1 text-xs bg-[#333] hover:bg-[#444] px-2 py-0.5 rounded-sm"
+                                        title="Add to queue (starts when the workspace is free)"
+                                    >
+                                        <ListPlus size={10} /> Queue
+                                    </button>
+                                )}
+                                {canDo(job, 'dequeue') && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleDequeueJob(job.id);
+                                        }}
+                                        className="flex items-center gap-1 text-xs bg-[#333] hover:bg-[#444] px-2 py-0.5 rounded-sm"
+                                    >
+                                        <X size={10} /> Unqueue
+                                    </button>
+                                )}
+                                {canDo(job, 'start') && (
                                     <button
                                         onClick={(e) => {
                                             e.stopPropagation();
@@ -293,8 +867,67 @@ export function JobPanel({ cwd, selectedJobId, onSelectJob }: Props) {
     );
 }
 
+function formatDuration(ms: number): string {
+    const totalSec = Math.max(0, Math.round(ms / 1000));
+    const m = Math.floor(totalSec / 60);
+    return m ? `${m}m${String(totalSec % 60).padStart(2, '0')}s` : `${totalSec}s`;
+}
+
+// Remaining budget (fix rounds, runtime, reviewer spend); ticks every second while the runtime clock runs
+function BudgetSummary({ job }: { job: Job }) {
+    const [now, setNow] = useState(() => Date.now());
+    const runningSince = job.usage?.runningSince;
+
+    useEffect(() => {
+        if (!runningSince) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [runningSince]);
+
+    const budget = job.budget;
+    if (!budget) return null;
+    const usage = job.usage || { runtimeMs: 0, reviewTokens: 0, reviewCostUsd: 0 };
+
+    const parts: { label: string, exhausted: boolean }[] = [];
+    if (budget.maxFixIterations !== undefined) {
+        parts.push({
+            label: `fixes ${Math.max(0, budget.maxFixIterations - (job.autoFixCount || 0))}/${budget.maxFixIterations} left`,
+            exhausted: job.budgetExhausted === 'fixIterations'
+        });
+    }
+    if (budget.maxRuntimeMs !== undefined) {
+        const elapsed = usage.runtimeMs + (runningSince ? Math.max(0, now - runningSince) : 0);
+        parts.push({
+            label: `${formatDuration(budget.maxRuntimeMs - elapsed)} left`,
+            exhausted: job.budgetExhausted === 'runtime'
+        });
+    }
+    if (budget.maxReviewCostUsd !== undefined || usage.reviewCostUsd > 0) {
+        parts.push({
+            label: `$${usage.reviewCostUsd.toFixed(3)}${budget.maxReviewCostUsd !== undefined ? ` / $${budget.maxReviewCostUsd.toFixed(2)}` : ''}`,
+            exhausted: job.budgetExhausted === 'reviewCost'
+        });
+    }
+    if (budget.maxReviewTokens !== undefined) {
+        parts.push({
+            label: `${usage.reviewTokens}/${budget.maxReviewTokens} tokens`,
+            exhausted: job.budgetExhausted === 'reviewTokens'
+        });
+    }
+    if (parts.length === 0) return null;
+
+    return (
+        <div className="text-[10px] text-gray-500 mt-1 flex flex-wrap gap-x-2">
+            <span>Budget:</span>
+            {parts.map(p => (
+                <span key={p.label} className={p.exhausted ? 'text-red-400' : undefined}>{p.label}</span>
+            ))}
+        </div>
+    );
+}
+
 // Phase order for progress display
-const PHASE_ORDER = ['idle', 'running', 'fixing', 'verifying', 'snapshotting', 'reviewing', 'waiting_approval', 'completed'] as const;
+const PHASE_ORDER = ['idle', 'queued', 'running', 'fixing', 'verifying', 'snapshotting', 'reviewing', 'waiting_approval', 'completed'] as const;
 
 function StatusBadge({ status, autoFixCount }: { status: Job['status']; autoFixCount?: number }) {
     const config: Record<Job['status'], { icon: React.ReactNode; label: string; color: string; bgColor: string; animate?: boolean }> = {
@@ -304,6 +937,12 @@ function StatusBadge({ status, autoFixCount }: { status: Job['status']; autoFixC
             color: 'text-gray-400',
             bgColor: 'bg-gray-800'
         },
+        queued: {
+            icon: <Hourglass size={10} />,
+            label: 'Queued',
+            color: 'text-cyan-400',
+            bgColor: 'bg-cyan-900/40'
+        },
         running: {
             icon: <Bot size={10} />,
             label: 'Claude Working',
@@ -345,6 +984,24 @@ function StatusBadge({ status, autoFixCount }: { status: Job['status']; autoFixC
             color: 'text-pink-400',
             bgColor: 'bg-pink-900/40'
         },
+        paused: {
+            icon: <Pause size={10} />,
+            label: 'Paused',
+            color: 'text-amber-400',
+            bgColor: 'bg-amber-900/40'
+        },
+        cancelled: {
+            icon: <Ban size={10} />,
+            label: 'Cancelled',
+            color: 'text-gray-400',
+            bgColor: 'bg-gray-800'
+        },
+        interrupted: {
+            icon: <History size={10} />,
+            label: 'Interrupted',
+            color: 'text-amber-400',
+            bgColor: 'bg-amber-900/40'
+        },
         completed: {
             icon: <Check size={10} />,
             label: 'Done',
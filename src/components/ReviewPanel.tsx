@@ -12,6 +12,7 @@ interface ReviewIssue {
     title: string;
     evidence: string;
     suggestion: string;
+    reportedBy?: string[];
 }
 
 interface ReviewResult {
@@ -29,6 +30,11 @@ interface ReviewResult {
         correctness: RiskLevel;
         maintainability: RiskLevel;
     };
+    ensemble?: {
+        policy: string;
+        votes: { provider: string, decision?: Decision, achievedLevel?: AchievedLevel, summary?: string, error?: string }[];
+        disagreements: string[];
+    };
 }
 
 interface ReviewHistoryItem {
@@ -121,6 +127,9 @@ const IssueCard = ({ issue }: { issue: ReviewIssue }) => {
                     issue.severity === 'major' ? 'text-yellow-400' : 'text-blue-400'
                     }`}>{issue.severity}</span>
                 <span className="text-sm text-gray-200">{issue.title}</span>
+                {issue.reportedBy && (
+                    <span className="ml-auto text-[10px] text-gray-500">{issue.reportedBy.join(', ')}</span>
+                )}
             </div>
             {expanded && (
                 <div className="mt-2 pl-5 space-y-2 text-xs">
@@ -218,12 +227,41 @@ export function ReviewPanel({ reviews, onClose, onRevert, onFixJob }: Props) {
                 <div className="flex-1 overflow-auto p-4 space-y-4">
                     {/* Summary */}
                     <div className="bg-[#252526] p-3 rounded">
-                        <p className="text-gray-300">{result.summary}</p>
+                        <p className="text-gray-300 whitespace-pre-wrap">{result.summary}</p>
                         <p className="text-[11px] text-gray-500 mt-1">
                             Snapshot: {currentReview.snapshotId} | {new Date(currentReview.timestamp).toLocaleString()}
                         </p>
                     </div>
 
+                    {/* Ensemble votes */}
+                    {result.ensemble && (
+                        <div className="bg-[#252526] p-3 rounded">
+                            <h4 className="text-xs font-bold text-gray-400 mb-2">
+                                Reviewers ({result.ensemble.policy})
+                            </h4>
+                            <div className="space-y-1">
+                                {result.ensemble.votes.map(vote => (
+                                    <div key={vote.provider} className="flex items-center gap-2 text-xs">
+                                        <span className="text-gray-400 w-20">{vote.provider}</span>
+                                        {vote.decision ? (
+                                            <>
+                                                <DecisionBadge decision={vote.decision} />
+                                                {vote.achievedLevel && <LevelBadge level={vote.achievedLevel} />}
+                                            </>
+                                        ) : (
+                                            <span className="text-red-400 truncate" title={vote.error}>failed: {vote.error}</span>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                            {result.ensemble.disagreements.length > 0 && (
+                                <div className="mt-2">
+                                    <MissingSection title="Disagreements" items={result.ensemble.disagreements} color="text-orange-400" />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Risk Assessment */}
                     <div className="bg-[#252526] p-3 rounded">
                         <h4 className="text-xs font-bold text-gray-400 mb-2">Risk Assessment</h4>
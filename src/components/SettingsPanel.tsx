@@ -109,7 +109,7 @@ export function SettingsPanel({ onClose }: Props) {
                             <li>Run verification (lint/build)</li>
                             <li>Create snapshots</li>
                             <li>Get AI code review</li>
-                            <li>Auto-fix issues (up to 2 attempts)</li>
+                            <li>Auto-fix issues (up to the job's fix budget, 2 by default)</li>
                         </ul>
                     </div>
                 </div>
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { X, FileText, Loader2 } from 'lucide-react';
+import type { JobTemplate } from '../types';
+
+interface Props {
+    cwd: string;
+    onClose: () => void;
+    onCreate: (templateId: string, values: Record<string, string>) => Promise<string | null>; // error message, null on success
+}
+
+// Fills {{name}} with what's typed so far, leaving unfilled placeholders visible
+const preview = (text: string, values: Record<string, string>) =>
+    text.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (whole, name: string) => values[name] || whole);
+
+const defaultValues = (template: JobTemplate) =>
+    Object.fromEntries(template.variables.map(v => [v.name, v.default ?? '']));
+
+export function TemplatePanel({ cwd, onClose, onCreate }: Props) {
+    const [templates, setTemplates] = useState<JobTemplate[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [error, setError] = useState<string | null>(null);
+    const [creating, setCreating] = useState(false);
+
+    useEffect(() => {
+        window.electronAPI.invoke('template-list', { cwd: cwd || undefined })
+            .then((list: JobTemplate[]) => {
+                setTemplates(list);
+                if (!list.length) return;
+                setSelectedId(list[0].id);
+                setValues(defaultValues(list[0]));
+            })
+            .catch((e: unknown) => {
+                console.error('Failed to load templates', e);
+                setTemplates([]);
+            });
+    }, [cwd]);
+
+    const selectTemplate = (template: JobTemplate) => {
+        setSelectedId(template.id);
+        setValues(defaultValues(template));
+        setError(null);
+    };
+
+    const template = templates?.find(t => t.id === selectedId);
+    const missing = template?.variables.filter(v => !values[v.name]?.trim()) ?? [];
+
+    const handleCreate = async () => {
+        if (!template || missing.length) return;
+        setCreating(true);
+        const err = await onCreate(template.id, values);
+        setCreating(false);
+        if (err) setError(err);
+        else onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-[#1e1e1e] border border-[#3e3e42] w-[700px] max-h-[80vh] flex flex-col rounded-lg overflow-hidden">
+                <div className="h-12 bg-[#252526] border-b border-[#3e3e42] flex items-center justify-between px-4 shrink-0">
+                    <div className="flex items-center gap-2">
+                        <FileText size={16} className="text-blue-400" />
+                        <h2 className="font-bold text-white">New Job from Template</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {templates === null ? (
+                    <div className="p-8 flex justify-center text-gray-500"><Loader2 size={18} className="animate-spin" /></div>
+                ) : templates.length === 0 ? (
+                    <div className="p-6 text-sm text-gray-500 space-y-2">
+                        <p>No templates yet.</p>
+                        <p>
+                            Add JSON files to <code className="text-gray-300">~/.natsuki/templates/</code> or
+                            {' '}<code className="text-gray-300">&lt;workspace&gt;/.natsuki/templates/</code>, e.g.
+                        </p>
+                        <pre className="p-2 bg-black/30 rounded text-[11px] text-gray-400 whitespace-pre-wrap">
+                            {'{ "name": "Bump dependency",\n  "prompt": "Upgrade {{package}} to {{version}} and fix any breakage.",\n  "verifySteps": [{ "profile": "build" }, { "profile": "test" }] }'}
+                        </pre>
+                    </div>
+                ) : (
+                    <div className="flex flex-1 min-h-0">
+                        {/* Template list */}
+                        <div className="w-48 border-r border-[#3e3e42] overflow-auto shrink-0">
+                            {templates.map(t => (
+                                <button
+                                    key={t.id}
+                                    onClick={() => selectTemplate(t)}
+                                    className={`w-full text-left px-3 py-2 text-xs border-b border-[#2a2a2a] ${t.id === selectedId ? 'bg-[#37373d] text-white' : 'text-gray-400 hover:bg-[#2a2d2e]'}`}
+                                >
+                                    <div className="truncate">{t.name}</div>
+                                    <div className="text-[10px] text-gray-500">{t.source}</div>
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Variable form */}
+                        {template && (
+                            <div className="flex-1 overflow-auto p-4 space-y-3">
+                                {template.description && <p className="text-xs text-gray-400">{template.description}</p>}
+
+                                {template.variables.map(v => (
+                                    <div key={v.name}>
+                                        <label className="block text-xs text-gray-400 mb-1">{v.label || v.name}</label>
+                                        {v.multiline ? (
+                                            <textarea
+                                                value={values[v.name] ?? ''}
+                                                onChange={(e) => setValues({ ...values, [v.name]: e.target.value })}
+                                                rows={3}
+                                                className="w-full bg-[#252526] border border-[#333] px-2 py-1 text-sm rounded-sm focus:outline-none focus:border-blue-500"
+                                            />
+                                        ) : (
+                                            <input
+                                                type="text"
+                                                value={values[v.name] ?? ''}
+                                                onChange={(e) => setValues({ ...values, [v.name]: e.target.value })}
+                                                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                                                className="w-full bg-[#252526] border border-[#333] px-2 py-1 text-sm rounded-sm focus:outline-none focus:border-blue-500"
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+
+                                <div>
+                                    <span className="text-xs text-gray-500">Prompt</span>
+                                    <pre className="mt-1 p-2 bg-black/30 rounded text-gray-400 whitespace-pre-wrap text-[11px]">
+                                        {preview(template.prompt, values)}
+                                    </pre>
+                                </div>
+
+                                <div className="text-[11px] text-gray-500 space-y-0.5">
+                                    {template.verifySteps && <div>Verify: {template.verifySteps.map(s => s.profile).join(' → ') || 'none'}</div>}
+                                    {template.reviewer && <div>Reviewer: {template.reviewer}</div>}
+                                    {template.budget?.maxFixIterations !== undefined && <div>Fix rounds: {template.budget.maxFixIterations}</div>}
+                                    {template.contract && <div>Contract: {template.contract.levels.minimum.length} minimum / {template.contract.levels.middle.length} middle requirements</div>}
+                                    <div>Settings the template leaves out come from the New Job form.</div>
+                                </div>
+
+                                {error && <p className="text-xs text-red-400">{error}</p>}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {template && (
+                    <div className="p-3 bg-[#252526] border-t border-[#3e3e42] flex justify-end gap-2 shrink-0">
+                        <button onClick={onClose} className="px-3 py-1 text-xs text-gray-400 hover:text-white">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleCreate}
+                            disabled={creating || missing.length > 0}
+                            title={missing.length ? `Fill in: ${missing.map(v => v.label || v.name).join(', ')}` : undefined}
+                            className="px-3 py-1 bg-blue-700 hover:bg-blue-600 disabled:opacity-50 text-white text-xs rounded-sm"
+                        >
+                            Create Job
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
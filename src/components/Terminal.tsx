@@ -1,18 +1,161 @@
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState, useCallback } from 'react';
 import { Terminal } from 'xterm';
 import { FitAddon } from 'xterm-addon-fit';
 import { WebLinksAddon } from 'xterm-addon-web-links';
+import { Play, Pause, X, Plus, Bot, SquareTerminal } from 'lucide-react';
 import { jobService } from '../services/jobService';
+import type { CastRecording, Job, TerminalSessionInfo } from '../types';
 import 'xterm/css/xterm.css';
 
 interface TerminalProps {
     cwd: string;
+    replayJobId?: string | null; // shows that job's recording instead of the live session (which keeps running)
+    onCloseReplay?: () => void;
 }
 
-export function TerminalComponent({ cwd }: TerminalProps) {
+const TERMINAL_FONT = 'Consolas, "Courier New", monospace';
+const LIST_POLL_MS = 2000;
+
+const formatUptime = (ms: number) => {
+    const minutes = Math.floor(ms / 60000);
+    return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// A job's session leaves the tabs once the job lets go of it (the orchestrator closes it shortly after)
+const isTab = (s: TerminalSessionInfo) => !!s.jobId || !s.background;
+
+// Tabs over every PTY session: the user's shells and the sessions job agents run in
+export function TerminalComponent({ cwd, replayJobId, onCloseReplay }: TerminalProps) {
+    const [sessions, setSessions] = useState<TerminalSessionInfo[]>([]);
+    const [jobs, setJobs] = useState<Job[]>([]);
+    const [activeId, setActiveId] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            const [list, jobList]: [TerminalSessionInfo[], Job[]] = await Promise.all([
+                window.electronAPI.invoke('terminal-list'),
+                window.electronAPI.invoke('job-list')
+            ]);
+            setSessions(list);
+            setJobs(jobList);
+            // The shown session is gone (exited or closed): fall back to another tab
+            setActiveId(current => current && list.some(s => s.sessionId === current) ? current : list.find(isTab)?.sessionId ?? null);
+        } catch (e) {
+            console.error('[Terminal] Failed to list sessions', e);
+        }
+    }, []);
+
+    // The first refresh comes from the shell effect below
+    useEffect(() => {
+        const timer = setInterval(refresh, LIST_POLL_MS);
+        const disposeExit = window.electronAPI.on('terminal-exit', () => { refresh(); });
+        return () => {
+            clearInterval(timer);
+            disposeExit();
+        };
+    }, [refresh]);
+
+    // A shell tab for the workspace: a plain shell already open there, else a new one
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            const list: TerminalSessionInfo[] = await window.electronAPI.invoke('terminal-list');
+            const shell = list.find(s => !s.lastJobId && (!cwd || s.cwd === cwd));
+            const sessionId = shell?.sessionId ?? (await window.electronAPI.invoke('terminal-init', cwd))?.sessionId;
+            if (cancelled || !sessionId) return;
+            setActiveId(sessionId);
+            refresh();
+        })().catch(e => console.error('[Terminal] Failed to open a shell', e));
+        return () => { cancelled = true; };
+    }, [cwd, refresh]);
+
+    const openShell = async () => {
+        const res = await window.electronAPI.invoke('terminal-init', cwd);
+        if (res?.sessionId) setActiveId(res.sessionId);
+        refresh();
+    };
+
+    const closeSession = (session: TerminalSessionInfo) => {
+        if (session.jobId && !confirm(`${session.jobId} is running in this session. Close it anyway? The job will fail.`)) return;
+        window.electronAPI.send('terminal-kill', session.sessionId);
+        setTimeout(refresh, 200);
+    };
+
+    // Starts a job in the shown session (the agent is launched in that shell)
+    const attachJob = async (jobId: string, session: TerminalSessionInfo) => {
+        const res = await window.electronAPI.invoke('orchestrator-start', { jobId, cwd: session.cwd, sessionId: session.sessionId });
+        if (!res?.success) alert(`Failed to start ${jobId}: ${res?.error || 'unknown error'}`);
+        refresh();
+    };
+
+    const active = sessions.find(s => s.sessionId === activeId);
+    const jobById = new Map(jobs.map(j => [j.id, j]));
+    const attachable = active && !active.jobId
+        ? jobs.filter(j => (j.status === 'idle' || j.status === 'queued') && (!j.workspace || j.workspace === active.cwd))
+        : [];
+    let shellCount = 0;
+
+    return (
+        <div className="h-full w-full flex flex-col">
+            <div className="h-7 flex items-stretch bg-[#252526] border-b border-[#3e3e42] text-xs shrink-0 overflow-x-auto">
+                {sessions.filter(s => isTab(s) || s.sessionId === activeId).map(s => {
+                    const jobId = s.jobId || s.lastJobId;
+                    const job = jobId ? jobById.get(jobId) : undefined;
+                    const label = jobId ? `Agent · ${jobId}` : `Shell ${++shellCount}`;
+                    return (
+                        <div
+                            key={s.sessionId}
+                            onClick={() => setActiveId(s.sessionId)}
+                            title={[
+                                s.cwd,
+                                `PID ${s.pid} · up ${formatUptime(s.uptimeMs)}`,
+                                job ? `${job.id} (${job.status}): ${job.description}` : null
+                            ].filter(Boolean).join('\n')}
+                            className={`flex items-center gap-1.5 px-2 border-r border-[#3e3e42] cursor-pointer shrink-0 ${s.sessionId === activeId ? 'bg-[#1e1e1e] text-white' : 'text-gray-400 hover:bg-[#2a2d2e]'}`}
+                        >
+                            {jobId ? <Bot size={12} className={s.jobId ? 'text-green-400' : 'text-gray-500'} /> : <SquareTerminal size={12} />}
+                            <span className="max-w-[180px] truncate">{label}</span>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); closeSession(s); }}
+                                className="text-gray-500 hover:text-white"
+                                title="Close (kills the shell)"
+                            >
+                                <X size={11} />
+                            </button>
+                        </div>
+                    );
+                })}
+                <button onClick={openShell} className="px-2 text-gray-400 hover:text-white" title="New shell">
+                    <Plus size={13} />
+                </button>
+                {attachable.length > 0 && (
+                    <select
+                        value=""
+                        onChange={(e) => active && attachJob(e.target.value, active)}
+                        className="ml-auto my-0.5 mr-1 bg-[#333] border border-[#444] rounded-sm px-1 text-gray-300"
+                        title="Start a job with its agent in this session"
+                    >
+                        <option value="" disabled>Run job here…</option>
+                        {attachable.map(j => <option key={j.id} value={j.id}>{j.id}: {j.description.slice(0, 60)}</option>)}
+                    </select>
+                )}
+            </div>
+
+            <div className="flex-1 min-h-0 relative">
+                {activeId ? (
+                    <SessionView key={activeId} sessionId={activeId} />
+                ) : (
+                    <div className="p-4 text-xs text-gray-500">No terminal sessions. Open one with +.</div>
+                )}
+                {replayJobId && <CastPlayer key={replayJobId} jobId={replayJobId} onClose={() => onCloseReplay?.()} />}
+            </div>
+        </div>
+    );
+}
+
+// One session's xterm. Mounting attaches to the (already running) session; unmounting leaves it running.
+function SessionView({ sessionId }: { sessionId: string }) {
     const terminalRef = useRef<HTMLDivElement>(null);
-    const xtermRef = useRef<Terminal | null>(null);
-    const sessionRef = useRef<string | null>(null);
 
     useEffect(() => {
         if (!terminalRef.current) return;
@@ -20,7 +163,7 @@ export function TerminalComponent({ cwd }: TerminalProps) {
         const term = new Terminal({
             cursorBlink: true,
             fontSize: 14,
-            fontFamily: 'Consolas, "Courier New", monospace',
+            fontFamily: TERMINAL_FONT,
             theme: {
                 background: '#1e1e1e',
             }
@@ -37,24 +180,31 @@ export function TerminalComponent({ cwd }: TerminalProps) {
             try { fitAddon.fit(); } catch (e) { }
         };
 
+        const sendResize = () => {
+            if (term.cols && term.rows) {
+                window.electronAPI.send('terminal-resize', { sessionId, cols: term.cols, rows: term.rows });
+            }
+        };
+
         term.open(terminalRef.current);
-        xtermRef.current = term;
 
-        // Init Session
-        let isActive = true;
+        // Attach: draw what the session printed so far. terminal-data that arrives before the
+        // reply is already part of it (IPC keeps order), so it's dropped until then.
+        let attached = false;
         (async () => {
             try {
-                const res = await window.electronAPI.invoke('terminal-init', cwd);
-                if (isActive && res?.sessionId) {
-                    sessionRef.current = res.sessionId;
-                    console.log(`[Terminal] Attached to session ${res.sessionId}`);
-
-                    // Initial Resize
-                    safelyFit();
-                    if (term.cols && term.rows) {
-                        window.electronAPI.send('terminal-resize', { sessionId: res.sessionId, cols: term.cols, rows: term.rows });
-                    }
+                const res = await window.electronAPI.invoke('terminal-attach', { sessionId });
+                if (!res?.success) {
+                    term.write(`\r\n${res?.error || 'Session not found'}\r\n`);
+                    return;
                 }
+                term.write(res.output);
+                attached = true;
+                console.log(`[Terminal] Attached to session ${sessionId}`);
+
+                // Initial Resize
+                safelyFit();
+                sendResize();
             } catch (e) {
                 term.write(`\r\nConnection failed: ${e}\r\n`);
             }
@@ -63,9 +213,7 @@ export function TerminalComponent({ cwd }: TerminalProps) {
         // Resize Observer
         const resizeObserver = new ResizeObserver(() => {
             safelyFit();
-            if (term.cols && term.rows && sessionRef.current) {
-                window.electronAPI.send('terminal-resize', { sessionId: sessionRef.current, cols: term.cols, rows: term.rows });
-            }
+            if (attached) sendResize();
         });
         resizeObserver.observe(terminalRef.current);
 
@@ -84,9 +232,7 @@ export function TerminalComponent({ cwd }: TerminalProps) {
             // Ctrl+V or Ctrl+Shift+V: Paste
             if (event.ctrlKey && event.code === 'KeyV') {
                 navigator.clipboard.readText().then(text => {
-                    if (sessionRef.current) {
-                        window.electronAPI.send('terminal-input', { sessionId: sessionRef.current, data: text });
-                    }
+                    window.electronAPI.send('terminal-input', { sessionId, data: text });
                 });
                 return false;
             }
@@ -95,22 +241,20 @@ export function TerminalComponent({ cwd }: TerminalProps) {
 
         // Input Handling
         term.onData(data => {
-            if (sessionRef.current) {
-                window.electronAPI.send('terminal-input', { sessionId: sessionRef.current, data });
-            }
+            window.electronAPI.send('terminal-input', { sessionId, data });
         });
 
         // Incoming Data
         const handleData = (event: any) => {
             // event = { sessionId, data }
-            if (event.sessionId === sessionRef.current) {
+            if (attached && event.sessionId === sessionId) {
                 term.write(event.data);
                 jobService.onTerminalOutput(event.data);
             }
         };
 
         const handleExit = (event: any) => {
-            if (event.sessionId === sessionRef.current) {
+            if (event.sessionId === sessionId) {
                 term.write(`\r\nProgram exited (Code ${event.exitCode})\r\n`);
             }
         };
@@ -121,9 +265,7 @@ export function TerminalComponent({ cwd }: TerminalProps) {
 
         const handleWindowResize = () => {
             safelyFit();
-            if (term.cols && term.rows && sessionRef.current) {
-                window.electronAPI.send('terminal-resize', { sessionId: sessionRef.current, cols: term.cols, rows: term.rows });
-            }
+            if (attached) sendResize();
         };
         window.addEventListener('resize', handleWindowResize);
 
@@ -134,11 +276,6 @@ export function TerminalComponent({ cwd }: TerminalProps) {
         }, 200);
 
         return () => {
-            isActive = false;
-            if (sessionRef.current) {
-                window.electronAPI.send('terminal-kill', sessionRef.current);
-                sessionRef.current = null;
-            }
             resizeObserver.disconnect();
             window.removeEventListener('resize', handleWindowResize);
             // Properly dispose listeners
@@ -146,9 +283,226 @@ export function TerminalComponent({ cwd }: TerminalProps) {
             disposeExit();
             term.dispose();
         };
-    }, [cwd]);
+    }, [sessionId]);
 
     return (
         <div className="h-full w-full bg-[#1e1e1e] p-1" ref={terminalRef} />
     );
 }
+
+// --- Replay of asciicast v2 recordings (electron/cast-recorder.ts) ---
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const IDLE_LIMIT_S = 2; // longer pauses (agent thinking, waiting on a build) are shortened to this
+const TICK_MS = 50;
+
+interface CastEvent {
+    time: number; // seconds, idle gaps already shortened
+    type: string; // 'o' output, 'r' resize, 'm' marker
+    data: string;
+}
+
+interface ParsedCast {
+    width: number;
+    height: number;
+    events: CastEvent[];
+    markers: CastEvent[];
+    duration: number;
+}
+
+function parseCast(text: string): ParsedCast {
+    const [headerLine, ...lines] = text.split('\n');
+    const header = JSON.parse(headerLine);
+    if (header.version !== 2) throw new Error(`Unsupported asciicast version: ${header.version}`);
+
+    const events: CastEvent[] = [];
+    let previous = 0;
+    let skipped = 0;
+    lines.forEach(line => {
+        if (!line.trim()) return;
+        let event: [number, string, string];
+        try {
+            event = JSON.parse(line);
+        } catch {
+            return; // torn last line of a recording still being written
+        }
+        const gap = event[0] - previous;
+        if (gap > IDLE_LIMIT_S) skipped += gap - IDLE_LIMIT_S;
+        previous = event[0];
+        events.push({ time: event[0] - skipped, type: event[1], data: event[2] });
+    });
+
+    return {
+        width: header.width || 80,
+        height: header.height || 30,
+        events,
+        markers: events.filter(e => e.type === 'm'),
+        duration: events.length ? events[events.length - 1].time : 0
+    };
+}
+
+// Brings the terminal to `time`: forward by writing the events in between, backward by replaying from the start
+function playTo(term: Terminal, cast: ParsedCast, cursor: { time: number, index: number }, time: number) {
+    if (time < cursor.time) {
+        term.reset();
+        term.resize(cast.width, cast.height);
+        cursor.index = 0;
+    }
+    let pending = '';
+    while (cursor.index < cast.events.length && cast.events[cursor.index].time <= time) {
+        const event = cast.events[cursor.index++];
+        if (event.type === 'o') pending += event.data;
+        const size = event.type === 'r' ? /^(\d+)x(\d+)$/.exec(event.data) : null;
+        if (size) {
+            term.write(pending);
+            pending = '';
+            term.resize(Number(size[1]), Number(size[2]));
+        }
+    }
+    if (pending) term.write(pending);
+    cursor.time = time;
+}
+
+const formatTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+function CastPlayer({ jobId, onClose }: { jobId: string, onClose: () => void }) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const xtermRef = useRef<Terminal | null>(null);
+    const cursorRef = useRef({ time: 0, index: 0 });
+    const [recordings, setRecordings] = useState<CastRecording[] | null>(null);
+    const [name, setName] = useState<string | null>(null);
+    const [cast, setCast] = useState<ParsedCast | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [playing, setPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+    const [position, setPosition] = useState(0);
+
+    useEffect(() => {
+        window.electronAPI.invoke('job-recordings', jobId)
+            .then((list: CastRecording[]) => {
+                setRecordings(list);
+                if (list.length) setName(list[list.length - 1].name); // latest attach first
+            })
+            .catch((e: unknown) => setError(`Failed to list recordings: ${e}`));
+    }, [jobId]);
+
+    useEffect(() => {
+        if (!name) return;
+        window.electronAPI.invoke('job-recording-read', { jobId, name })
+            .then((text: string | null) => {
+                if (!text) throw new Error('recording not found');
+                setCast(parseCast(text));
+                setPosition(0);
+                setPlaying(true);
+                setError(null);
+            })
+            .catch((e: unknown) => setError(`Failed to load ${name}: ${e instanceof Error ? e.message : e}`));
+    }, [jobId, name]);
+
+    // A fresh terminal per recording, at the size it was recorded at
+    useEffect(() => {
+        if (!cast || !containerRef.current) return;
+        const term = new Terminal({
+            cols: cast.width,
+            rows: cast.height,
+            disableStdin: true,
+            cursorBlink: false,
+            fontSize: 14,
+            fontFamily: TERMINAL_FONT,
+            theme: { background: '#1e1e1e' }
+        });
+        term.open(containerRef.current);
+        xtermRef.current = term;
+        cursorRef.current = { time: 0, index: 0 };
+        return () => {
+            term.dispose();
+            xtermRef.current = null;
+        };
+    }, [cast]);
+
+    useEffect(() => {
+        if (!playing || !cast) return;
+        let last = performance.now();
+        const timer = setInterval(() => {
+            const now = performance.now();
+            const time = Math.min(cast.duration, cursorRef.current.time + (now - last) / 1000 * speed);
+            last = now;
+            if (xtermRef.current) playTo(xtermRef.current, cast, cursorRef.current, time);
+            setPosition(time);
+            if (time >= cast.duration) setPlaying(false);
+        }, TICK_MS);
+        return () => clearInterval(timer);
+    }, [playing, speed, cast]);
+
+    const seek = (time: number) => {
+        if (!cast || !xtermRef.current) return;
+        playTo(xtermRef.current, cast, cursorRef.current, time);
+        setPosition(time);
+    };
+
+    const togglePlay = () => {
+        if (!cast) return;
+        if (!playing && position >= cast.duration) seek(0); // replay from the start once finished
+        setPlaying(!playing);
+    };
+
+    return (
+        <div className="absolute inset-0 flex flex-col bg-[#1e1e1e]">
+            <div className="h-8 px-2 flex items-center gap-2 bg-[#252526] border-b border-[#3e3e42] text-xs text-gray-300 shrink-0">
+                <button onClick={togglePlay} disabled={!cast} className="text-gray-300 hover:text-white disabled:opacity-30" title={playing ? 'Pause' : 'Play'}>
+                    {playing ? <Pause size={14} /> : <Play size={14} />}
+                </button>
+                <span className="font-mono w-24 shrink-0">{formatTime(position)} / {formatTime(cast?.duration ?? 0)}</span>
+                <input
+                    type="range"
+                    min={0}
+                    max={cast?.duration || 0}
+                    step={0.1}
+                    value={position}
+                    disabled={!cast}
+                    onChange={(e) => seek(Number(e.target.value))}
+                    className="flex-1 min-w-[80px]"
+                />
+                <select
+                    value={speed}
+                    onChange={(e) => setSpeed(Number(e.target.value))}
+                    className="bg-[#333] border border-[#444] rounded-sm px-1"
+                    title="Playback speed"
+                >
+                    {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+                </select>
+                {cast && cast.markers.length > 0 && (
+                    <select
+                        value=""
+                        onChange={(e) => seek(Number(e.target.value))}
+                        className="bg-[#333] border border-[#444] rounded-sm px-1 max-w-[200px]"
+                        title="Jump to a status change or snapshot"
+                    >
+                        <option value="" disabled>Jump to…</option>
+                        {cast.markers.map((m, i) => <option key={i} value={m.time}>{formatTime(m.time)} {m.data}</option>)}
+                    </select>
+                )}
+                {recordings && recordings.length > 1 && (
+                    <select
+                        value={name ?? ''}
+                        onChange={(e) => setName(e.target.value)}
+                        className="bg-[#333] border border-[#444] rounded-sm px-1"
+                        title="Recordings of this job (one per session it ran in)"
+                    >
+                        {recordings.map((r, i) => <option key={r.name} value={r.name}>#{i + 1} {new Date(r.startedAt).toLocaleString()}</option>)}
+                    </select>
+                )}
+                <span className="text-gray-500 truncate">Replay of {jobId}</span>
+                <button onClick={onClose} className="ml-auto text-gray-400 hover:text-white" title="Back to the live terminal">
+                    <X size={14} />
+                </button>
+            </div>
+            {error || (recordings && !recordings.length) ? (
+                <div className="p-4 text-xs text-gray-500">{error || 'No recording for this job yet. Recordings start when a job runs.'}</div>
+            ) : (
+                <div className="flex-1 overflow-auto p-1" ref={containerRef} />
+            )}
+        </div>
+    );
+}
@@ -55,10 +55,10 @@ class JobServiceClass {
         return job;
     }
 
-    // "FixJob" action
-    async createFixJob(fromJobId: string, reviewResult: any) {
+    // "FixJob" action (autoStarted: the backend already started it because fix chaining is on)
+    async createFixJob(fromJobId: string, reviewResult: any): Promise<{ job?: Job, autoStarted?: boolean }> {
         const res = await window.electronAPI.invoke('job-create-from-review', { jobId: fromJobId, reviewResult });
-        return res.job;
+        return { job: res.job, autoStarted: res.autoStarted };
     }
 
     async startJob(jobId: string, cwd: string) {
@@ -9,6 +9,7 @@ export interface ReviewIssue {
     title: string;
     evidence: string;
     suggestion: string;
+    reportedBy?: string[];
 }
 
 export interface ReviewResult {
@@ -26,6 +27,11 @@ export interface ReviewResult {
         correctness: RiskLevel;
         maintainability: RiskLevel;
     };
+    ensemble?: {
+        policy: string;
+        votes: { provider: string, decision?: Decision, achievedLevel?: AchievedLevel, summary?: string, error?: string }[];
+        disagreements: string[];
+    };
 }
 
 export interface ReviewHistoryItem {
@@ -41,20 +47,147 @@ export interface ContractLevels {
     maximum: string[];
 }
 
+export type JobStatus = 'idle' | 'queued' | 'running' | 'verifying' | 'snapshotting' | 'reviewing' | 'completed' | 'failed' | 'waiting_approval' | 'fixing' | 'paused' | 'cancelled' | 'interrupted';
+
+// User-triggerable actions; which ones are valid per status comes from the backend state machine
+export type JobAction = 'start' | 'approve' | 'fix' | 'retry' | 'queue' | 'dequeue' | 'pause' | 'resume' | 'cancel';
+
+export interface VerifyStep {
+    profile: string;
+    continueOnError?: boolean;
+}
+
+// Unset limits are unlimited
+export interface JobBudget {
+    maxFixIterations?: number;
+    maxRuntimeMs?: number;
+    maxReviewTokens?: number;
+    maxReviewCostUsd?: number;
+}
+
+export type BudgetKind = 'fixIterations' | 'runtime' | 'reviewTokens' | 'reviewCost';
+
+export interface JobUsage {
+    runtimeMs: number;
+    runningSince?: number;
+    reviewTokens: number;
+    reviewCostUsd: number;
+}
+
+export interface JobWorktree {
+    repoPath: string;
+    path: string;
+    branch: string;
+    baseRef: string;
+    merged?: 'merge' | 'cherry-pick';
+    mergedAt?: number;
+}
+
+export interface WorkspaceBaseline {
+    head: string;
+    state: string;
+    ref: string;
+    createdAt: number;
+    rolledBackAt?: number;
+}
+
+// Coding CLI a job drives ('claude' or 'repl' + command)
+export interface JobAgentConfig {
+    id: string;
+    command?: string;
+}
+
 export interface Job {
     id: string;
     description: string;
-    status: 'idle' | 'running' | 'verifying' | 'snapshotting' | 'reviewing' | 'completed' | 'failed' | 'waiting_approval' | 'fixing';
+    status: JobStatus;
     createdAt: number;
     workspace?: string;
+    sessionId?: string;
+    agent?: JobAgentConfig;
+    prompt?: string;
+    templateId?: string;
+    reviewer?: string;
     logSummary?: string;
     autoFixCount?: number;
+    verifySteps?: VerifyStep[];
+    dependsOn?: string[];
+    queuedAt?: number;
+    pausedFrom?: JobStatus;
+    interruptedFrom?: JobStatus;
+    resumePhase?: 'verify' | 'snapshot' | 'review';
+    ownerPid?: number;
+    budget?: JobBudget;
+    usage?: JobUsage;
+    budgetExhausted?: BudgetKind;
+    parentJobId?: string;
+    childJobIds?: string[];
+    chainDepth?: number;
+    useWorktree?: boolean;
+    worktree?: JobWorktree;
+    commitSha?: string;
+    baseline?: WorkspaceBaseline;
     // Phase 3 extensions
     latestSnapshotId?: string;
     reviewResult?: ReviewResult;
     reviewHistory?: ReviewHistoryItem[];
 }
 
+// Job templates (electron/template-manager.ts)
+export interface TemplateVariable {
+    name: string;
+    label?: string;
+    default?: string;
+    multiline?: boolean;
+}
+
+export interface JobTemplate {
+    id: string;
+    name: string;
+    description?: string;
+    title?: string;
+    prompt: string;
+    variables: TemplateVariable[];
+    verifySteps?: VerifyStep[];
+    reviewer?: string;
+    budget?: JobBudget;
+    agent?: JobAgentConfig;
+    useWorktree?: boolean;
+    contract?: { levels: ContractLevels, requirements?: Record<string, string> };
+    source: 'user' | 'workspace';
+}
+
+// Job session recordings, asciicast v2 (electron/cast-recorder.ts)
+export interface CastRecording {
+    name: string;
+    size: number;
+    startedAt: number;
+    sessionId?: string;
+}
+
+// Local HTTP API (electron/api-server.ts)
+export interface ApiServerStatus {
+    running: boolean;
+    port?: number;
+    tokenFile: string;
+    error?: string;
+}
+
+// Terminal tabs (electron/pty-manager.ts)
+export interface TerminalSessionInfo {
+    sessionId: string;
+    cwd: string;
+    shell: string;
+    pid: number;
+    jobId: string | null;
+    lastJobId: string | null;
+    background: boolean;
+    startedAt: number;
+    uptimeMs: number;
+    lastOutputTime: number;
+    active: boolean;
+}
+
 export interface SessionDiagnosticState {
     process: {
         pid: number;
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite'
+
+// Headless CLI (electron/cli.ts -> dist-electron/cli.cjs), started by bin/natsuki.js.
+// CommonJS on purpose: the shared main-process modules import { ipcMain } from 'electron',
+// which only exists inside the app; in CJS that's a lazy property read instead of a link error.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'electron/cli.ts',
+    outDir: 'dist-electron',
+    emptyOutDir: false,
+    rollupOptions: {
+      external: ['electron', 'node-pty'],
+      output: {
+        format: 'cjs',
+        entryFileNames: 'cli.cjs',
+      },
+    },
+  },
+})